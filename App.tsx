@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { 
   Wand2, 
   Download, 
@@ -15,107 +15,274 @@ import {
 import FileUpload from './components/FileUpload';
 import VideoPreview from './components/VideoPreview';
 import ProcessingView from './components/ProcessingView';
-import { AudioSegment, ProcessingState, AiAnalysisResult, ExportConfig, ExportFormat } from './types';
-import { detectSilence, extractAudioFromVideo, generateFfmpegScript } from './utils/audioAnalysis';
+import ChannelPicker from './components/ChannelPicker';
+import AdvancedDetectionSettings from './components/AdvancedDetectionSettings';
+import HistoryPanel from './components/HistoryPanel';
+import BrowserRender from './components/BrowserRender';
+import InstantAudioExport from './components/InstantAudioExport';
+import KeyframeDrift from './components/KeyframeDrift';
+import CutListExport from './components/CutListExport';
+import ProjectFileControls from './components/ProjectFileControls';
+import SubtitlePanel from './components/SubtitlePanel';
+import { useHistory } from './hooks/useHistory';
+import { AudioSegment, ProcessingState, AiAnalysisResult, ExportConfig, ExportFormat, KeepRange, ProjectAudio, PauseMode, ScriptMode, AnalysisProgress, RmsEnvelope, DetectionSettings, VoiceFeatures, Detector, ManualEdits, ProjectEdits } from './types';
+import { DEFAULT_DETECTION_SETTINGS, generateFfmpegScript, segmentEnvelope } from './utils/audioAnalysis';
+import { measureChannelLevels } from './utils/audioEnvelope';
+import { calibrateThreshold } from './utils/calibration';
+import { analyzeMedia, analyzeVoice, isAbortError } from './utils/mediaAnalysis';
+import { segmentVoiceFeatures } from './utils/voiceActivity';
+import { applyKeepMargins, applyManualEdits, EMPTY_MANUAL_EDITS, moveBoundaryEdit, splitEdit, toggleSegmentEdit } from './utils/segmentEdits';
+import { buildEditPlan, EditPiece, getPlanDuration } from './utils/editTimeline';
+import { createRange, getRangesDuration } from './utils/keepRanges';
+import { downloadBlob } from './utils/download';
+import { isInstantAudioFormat } from './utils/audioRender';
+import { readVideoTrackInfo, snappedToPlan, snapPlanToKeyframes, VideoTrackInfo } from './utils/keyframes';
+import { isAudioOnlyFormat } from './utils/filterGraph';
+import { formatSubtitles, parseSubtitles, retimeCues, SubtitleCue, subtitleFileName } from './utils/subtitles';
+import { createProjectFile, fingerprintFile, parseProjectFile, projectToCsv, projectToJson } from './utils/projectFile';
+import { ScriptPlatform, SHELL_DIALECTS } from './utils/shellQuote';
 import { analyzeContent } from './services/geminiService';
 
+const DEFAULT_EXPORT_CONFIG: ExportConfig = {
+    format: 'mp4',
+    ranges: [],
+    bgMusicFile: null,
+    scriptMode: 'segments',
+    burnSubtitles: false,
+    padBefore: 0.1,
+    padAfter: 0.15,
+    pauseMode: 'remove',
+    pauseLength: 0.25,
+    pauseSpeed: 4
+};
+
+const SCRIPT_MODES: { mode: ScriptMode; label: string; hint: string }[] = [
+    { mode: 'segments', label: 'Per part', hint: 'Encodes each kept part separately, then joins them' },
+    { mode: 'filtergraph', label: 'Single pass', hint: 'One filter graph and one encode with sample-accurate cuts' },
+    { mode: 'copy', label: 'Fast copy', hint: 'No re-encode; cuts move out to the nearest keyframe (MP4/MOV only)' }
+];
+
+// Mix and loudest both use the mixdown for voice features
+const getVoiceFeaturesKey = (settings: DetectionSettings) =>
+  settings.channelMode === 'channel' ? `channel:${settings.channelIndex}` : 'mix';
+
 function App() {
   const [file, setFile] = useState<File | null>(null);
+  const [projectAudio, setProjectAudio] = useState<ProjectAudio | null>(null);
+  // Voice features are only computed once the voice detector is picked
+  const [voiceFeatures, setVoiceFeatures] = useState<{ key: string; features: VoiceFeatures } | null>(null);
+  const [voiceAnalyzing, setVoiceAnalyzing] = useState(false);
   const [segments, setSegments] = useState<AudioSegment[]>([]);
   const [state, setState] = useState<ProcessingState>(ProcessingState.IDLE);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  // Captions for the loaded media, in source time
+  const [subtitles, setSubtitles] = useState<{ name: string; cues: SubtitleCue[] } | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
   
-  // Detection Settings
-  const [thresholdDb, setThresholdDb] = useState(-35);
-  const [minSilenceDuration, setMinSilenceDuration] = useState(0.5);
+  // Detection settings, export & edit config and manual edits all go
+  // through the undo history
+  const history = useHistory<ProjectEdits>({
+      detection: DEFAULT_DETECTION_SETTINGS,
+      exportConfig: DEFAULT_EXPORT_CONFIG,
+      manualEdits: EMPTY_MANUAL_EDITS
+  });
+  const { detection, exportConfig, manualEdits } = history.state;
+  const { thresholdDb, minSilenceDuration } = detection;
   const [autoSkip, setAutoSkip] = useState(true);
   
   // Analysis
   const [aiAnalysis, setAiAnalysis] = useState<AiAnalysisResult | null>(null);
   
-  // Export & Edit Config
-  const [exportConfig, setExportConfig] = useState<ExportConfig>({
-      format: 'mp4',
-      trimStart: 0,
-      trimEnd: 0,
-      bgMusicFile: null
-  });
-  
   // Stats
   const [originalDuration, setOriginalDuration] = useState(0);
   const [finalDuration, setFinalDuration] = useState(0);
+  const [paddingDuration, setPaddingDuration] = useState(0);
+
+  // Detected segments with the keep margins and manual edits applied; this
+  // is what gets previewed, measured and exported
+  const editSegments = useMemo(
+    () => applyManualEdits(applyKeepMargins(segments, exportConfig.padBefore, exportConfig.padAfter), manualEdits),
+    [segments, exportConfig.padBefore, exportConfig.padAfter, manualEdits]
+  );
+
+  // Source pieces in output order, shared by stats, preview and export
+  const editPlan = useMemo(
+    () => buildEditPlan(editSegments, exportConfig),
+    [editSegments, exportConfig]
+  );
+
+  const updateDetection = (patch: Partial<DetectionSettings>, label: string = 'Detection settings') => {
+    history.commit(label, prev => ({ ...prev, detection: { ...prev.detection, ...patch } }));
+  };
+
+  const updateExportConfig = (patch: Partial<ExportConfig>, label: string) => {
+    history.commit(label, prev => ({ ...prev, exportConfig: { ...prev.exportConfig, ...patch } }));
+  };
 
-  // Initialize trim end when duration is known
+  const updateManualEdits = (update: (prev: ManualEdits) => ManualEdits, label: string) => {
+    history.commit(label, prev => ({ ...prev, manualEdits: update(prev.manualEdits) }));
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y); text fields keep their own undo
   useEffect(() => {
-    if (originalDuration > 0 && exportConfig.trimEnd === 0) {
-        setExportConfig(prev => ({ ...prev, trimEnd: originalDuration }));
-    }
-  }, [originalDuration]);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'TEXTAREA' || (target.tagName === 'INPUT' && (target as HTMLInputElement).type !== 'range')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history.undo, history.redo]);
+
+  // Which envelope/settings the current segments came from, so the worker's
+  // result isn't immediately segmented a second time on the main thread
+  const segmentedWithRef = useRef<{ envelope: RmsEnvelope; settings: DetectionSettings } | null>(null);
 
   const processFile = useCallback(async (selectedFile: File) => {
-    setFile(selectedFile);
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+
     setState(ProcessingState.ANALYZING_AUDIO);
-    
-    // Reset configs
-    setExportConfig(prev => ({
-        ...prev,
-        format: selectedFile.type.includes('audio') ? 'mp3' : 'mp4',
-        trimStart: 0,
-        trimEnd: 0, // Will be set after duration load
-        bgMusicFile: null
-    }));
+    setAnalysisProgress(null);
 
     try {
-      // 1. Audio Analysis (Local)
-      const audioBuffer = await extractAudioFromVideo(selectedFile);
-      const duration = audioBuffer.duration;
+      // 1. Audio Analysis (Local, in a worker) - decoded once, later
+      // slider changes only re-run segmentation over the cached envelope
+      const result = await analyzeMedia(selectedFile, {
+        settings: detection,
+        signal: controller.signal,
+        onProgress: setAnalysisProgress
+      });
+      const duration = result.audio.audioBuffer.duration;
+      segmentedWithRef.current = { envelope: result.audio.envelope, settings: detection };
+      setFile(selectedFile);
+      setProjectAudio(result.audio);
+      setSubtitles(null);
+      setVoiceFeatures(null);
+      // The worker segments by volume; voice mode re-segments once its features are in
+      setSegments(detection.detector === 'volume' ? result.segments : []);
       setOriginalDuration(duration);
-      setExportConfig(prev => ({ ...prev, trimEnd: duration }));
-      
-      const newSegments = detectSilence(audioBuffer, thresholdDb, minSilenceDuration);
-      setSegments(newSegments);
-      
-      calculateFinalDuration(newSegments, 0, duration);
+
+      // Reset configs; detection settings carry over to the new file
+      history.reset({
+          detection,
+          exportConfig: {
+              ...exportConfig,
+              format: selectedFile.type.includes('audio') ? 'mp3' : 'mp4',
+              ranges: [createRange(0, duration)],
+              bgMusicFile: null
+          },
+          manualEdits: EMPTY_MANUAL_EDITS
+      });
       
       setState(ProcessingState.READY);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error(error);
       setState(ProcessingState.ERROR);
+    } finally {
+      if (analysisAbortRef.current === controller) analysisAbortRef.current = null;
+    }
+  }, [detection, exportConfig, history.reset]);
+
+  const cancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    setAnalysisProgress(null);
+    setState(file ? ProcessingState.READY : ProcessingState.IDLE);
+  };
+
+  // Re-segment whenever the detection settings move. This only walks the
+  // cached envelope, so it is cheap enough to run on every slider tick.
+  useEffect(() => {
+    if (!projectAudio) return;
+    if (detection.detector === 'voice') {
+      if (!voiceFeatures || voiceFeatures.key !== getVoiceFeaturesKey(detection)) return;
+      setSegments(segmentVoiceFeatures(voiceFeatures.features, detection));
+      return;
     }
-  }, [thresholdDb, minSilenceDuration]);
+    const last = segmentedWithRef.current;
+    if (last && last.envelope === projectAudio.envelope && last.settings === detection) return;
+    segmentedWithRef.current = { envelope: projectAudio.envelope, settings: detection };
+    setSegments(segmentEnvelope(projectAudio.envelope, detection));
+  }, [projectAudio, detection, voiceFeatures]);
+
+  // Compute (and cache) spectral features when the voice detector needs them
+  useEffect(() => {
+    if (!projectAudio || detection.detector !== 'voice') return;
+    const key = getVoiceFeaturesKey(detection);
+    if (voiceFeatures?.key === key) return;
 
-  const calculateFinalDuration = (segs: AudioSegment[], tStart: number, tEnd: number) => {
-      // Calculate active duration respecting trim
-      let dur = 0;
+    const controller = new AbortController();
+    setVoiceAnalyzing(true);
+    analyzeVoice(projectAudio.audioBuffer, detection.channelMode, detection.channelIndex, controller.signal)
+      .then(features => setVoiceFeatures({ key, features }))
+      .catch(error => {
+        if (!isAbortError(error)) console.error(error);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setVoiceAnalyzing(false);
+      });
+    return () => {
+      controller.abort();
+      setVoiceAnalyzing(false);
+    };
+  }, [projectAudio, detection.detector, detection.channelMode, detection.channelIndex]);
+
+  const calibration = useMemo(
+    () => projectAudio ? calibrateThreshold(projectAudio.envelope, detection.channelMode, detection.channelIndex) : null,
+    [projectAudio, detection.channelMode, detection.channelIndex]
+  );
+
+  // Auto mode writes its suggestion into the regular settings, so moving a
+  // slider afterwards simply takes over from there
+  useEffect(() => {
+    if (!detection.autoCalibrate || !calibration) return;
+    if (calibration.thresholdDb === thresholdDb && calibration.minSilenceDuration === minSilenceDuration) return;
+    updateDetection({ thresholdDb: calibration.thresholdDb, minSilenceDuration: calibration.minSilenceDuration }, 'Auto threshold');
+  }, [calibration, detection.autoCalibrate]);
+
+  const channelLevels = useMemo(
+    () => projectAudio ? measureChannelLevels(projectAudio.envelope) : [],
+    [projectAudio]
+  );
+
+  const calculateFinalDuration = (segs: AudioSegment[], plan: EditPiece[], ranges: KeepRange[]) => {
+      // Output duration respecting the keep ranges and the pause mode
+      setFinalDuration(getPlanDuration(plan));
+
+      let padding = 0;
       segs.forEach(s => {
-          if (s.isSilent) return;
-          if (s.end < tStart || s.start > tEnd) return;
-          
-          const start = Math.max(s.start, tStart);
-          const end = Math.min(s.end, tEnd);
-          if (end > start) dur += (end - start);
+          if (!s.isPadding) return;
+          ranges.forEach(range => {
+              const start = Math.max(s.start, range.start);
+              const end = Math.min(s.end, range.end);
+              if (end > start) padding += (end - start);
+          });
       });
-      setFinalDuration(dur);
+      setPaddingDuration(padding);
   };
 
   const handleThresholdChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setThresholdDb(Number(e.target.value));
-    if (file && state === ProcessingState.READY) {
-       setState(ProcessingState.ANALYZING_AUDIO);
-       extractAudioFromVideo(file).then(buffer => {
-           const newSegments = detectSilence(buffer, Number(e.target.value), minSilenceDuration);
-           setSegments(newSegments);
-           calculateFinalDuration(newSegments, exportConfig.trimStart, exportConfig.trimEnd);
-           setState(ProcessingState.READY);
-       });
-    }
+    updateDetection({ thresholdDb: Number(e.target.value), autoCalibrate: false }, 'Silence threshold');
   };
 
-  // Update final duration when trim changes
+  // Update final duration when the keep ranges change
   useEffect(() => {
-      if (segments.length > 0) {
-          calculateFinalDuration(segments, exportConfig.trimStart, exportConfig.trimEnd);
+      if (editSegments.length > 0) {
+          calculateFinalDuration(editSegments, editPlan, exportConfig.ranges);
       }
-  }, [exportConfig.trimStart, exportConfig.trimEnd, segments]);
+  }, [exportConfig.ranges, editSegments, editPlan]);
 
   const handleAnalyzeAi = async () => {
     if (!file) return;
@@ -125,24 +292,115 @@ function App() {
     setState(ProcessingState.READY);
   };
 
-  const downloadScript = (platform: 'win' | 'unix') => {
+  // Keyframes and frame rate of MP4 / MOV sources, for the stream-copy fast
+  // export and the cut lists
+  const [videoTrack, setVideoTrack] = useState<VideoTrackInfo | null>(null);
+  useEffect(() => {
+    setVideoTrack(null);
+    if (!file) return;
+    let cancelled = false;
+    readVideoTrackInfo(file).then(info => {
+      if (!cancelled) setVideoTrack(info);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const keyframes = videoTrack?.keyframes ?? null;
+
+  const canStreamCopy = !!keyframes && !isAudioOnlyFormat(exportConfig.format);
+  const planEmpty = editPlan.length === 0;
+  const scriptUnavailable = planEmpty || (exportConfig.scriptMode === 'copy' && !canStreamCopy);
+  const snappedPlan = useMemo(
+    () => (keyframes ? snapPlanToKeyframes(editPlan, keyframes, originalDuration) : null),
+    [keyframes, editPlan, originalDuration]
+  );
+
+  // The fast export moves cuts to keyframes, so its subtitles follow the snapped pieces
+  const subtitlePlan = useMemo(
+    () => (exportConfig.scriptMode === 'copy' && snappedPlan ? snappedToPlan(snappedPlan) : editPlan),
+    [exportConfig.scriptMode, snappedPlan, editPlan]
+  );
+  const canBurnSubtitles = exportConfig.scriptMode !== 'copy' && !isAudioOnlyFormat(exportConfig.format);
+
+  const loadSubtitles = async (subtitleFile: File) => {
+    const cues = parseSubtitles(await subtitleFile.text());
+    if (cues.length === 0) throw new Error('No subtitle cues found; expected an SRT or VTT file');
+    setSubtitles({ name: subtitleFile.name, cues });
+  };
+
+  const downloadScript = (platform: ScriptPlatform) => {
     if (!file) return;
-    const script = generateFfmpegScript(segments, file.name, platform, {
+    // Scripts pick the retimed subtitles up from next to themselves
+    const subtitleName = subtitles ? subtitleFileName(file.name, 'srt') : undefined;
+    const script = generateFfmpegScript(editSegments, file.name, platform, {
         format: exportConfig.format,
-        trimStart: exportConfig.trimStart,
-        trimEnd: exportConfig.trimEnd,
-        bgMusicName: exportConfig.bgMusicFile?.name
+        ranges: exportConfig.ranges,
+        pauseMode: exportConfig.pauseMode,
+        pauseLength: exportConfig.pauseLength,
+        pauseSpeed: exportConfig.pauseSpeed,
+        scriptMode: exportConfig.scriptMode,
+        keyframes,
+        bgMusicName: exportConfig.bgMusicFile?.name,
+        subtitleName: exportConfig.burnSubtitles && canBurnSubtitles ? subtitleName : undefined
     });
     
-    const blob = new Blob([script], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = platform === 'win' ? 'process_media.bat' : 'process_media.sh';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    const shell = SHELL_DIALECTS[platform];
+    downloadBlob(new Blob([shell.bom ? `\uFEFF${script}` : script], { type: 'text/plain' }), shell.fileName);
+    if (subtitles && subtitleName) {
+      const retimed = formatSubtitles(retimeCues(subtitles.cues, subtitlePlan), 'srt');
+      downloadBlob(new Blob([retimed], { type: 'application/x-subrip' }), subtitleName);
+    }
+  };
+
+  const saveProjectFile = async (kind: 'json' | 'csv') => {
+    if (!file) return;
+    const source = {
+      name: file.name,
+      size: file.size,
+      fingerprint: await fingerprintFile(file),
+      duration: originalDuration
+    };
+    const project = createProjectFile(source, detection, segments, manualEdits, exportConfig);
+    const text = kind === 'json' ? projectToJson(project) : projectToCsv(project);
+    const baseName = file.name.replace(/\s+/g, '_').replace(/\.[^/.]+$/, '');
+    downloadBlob(new Blob([text], { type: kind === 'json' ? 'application/json' : 'text/csv' }), `${baseName}_cutlist.${kind}`);
+  };
+
+  // Restores a saved cut list over the loaded media as one undoable step
+  const loadProjectFile = async (cutList: File): Promise<string[]> => {
+    if (!file || !projectAudio) throw new Error('Load the media file before its cut list');
+    const { bgMusicFile: _, ...defaultConfig } = DEFAULT_EXPORT_CONFIG;
+    const project = parseProjectFile(await cutList.text(), {
+      detection: DEFAULT_DETECTION_SETTINGS,
+      exportConfig: { ...defaultConfig, bgMusicName: null }
+    });
+
+    const warnings: string[] = [];
+    if (project.source.fingerprint !== await fingerprintFile(file)) {
+      warnings.push(`This cut list was made for "${project.source.name}", which does not match the loaded media. Cuts may not line up.`);
+    } else if (Math.abs(project.source.duration - originalDuration) > 0.05) {
+      warnings.push(`The saved duration (${project.source.duration.toFixed(2)} s) differs from the loaded media.`);
+    }
+
+    const { bgMusicName, ranges, ...config } = project.exportConfig;
+    const keepMusic = !!bgMusicName && exportConfig.bgMusicFile?.name === bgMusicName;
+    if (bgMusicName && !keepMusic) warnings.push(`Add the background music "${bgMusicName}" again; media files are not saved.`);
+
+    // The saved segments stand in for detection until the settings change
+    segmentedWithRef.current = { envelope: projectAudio.envelope, settings: project.detection };
+    setSegments(project.segments);
+    history.commit('Load cut list', () => ({
+      detection: project.detection,
+      exportConfig: {
+        ...config,
+        ranges: ranges.map(range => createRange(range.start, range.end)),
+        bgMusicFile: keepMusic ? exportConfig.bgMusicFile : null
+      },
+      manualEdits: project.manualEdits
+    }));
+    return warnings;
   };
 
   const handleLinkSubmit = async (link: string) => {
@@ -159,7 +417,7 @@ function App() {
 
   const renderStats = () => {
     if (!originalDuration) return null;
-    const saved = Math.max(0, (exportConfig.trimEnd - exportConfig.trimStart) - finalDuration);
+    const saved = Math.max(0, getRangesDuration(exportConfig.ranges) - finalDuration);
     const percent = originalDuration > 0 ? Math.round((saved / originalDuration) * 100) : 0;
     
     return (
@@ -171,6 +429,9 @@ function App() {
             <div className="bg-zinc-900 border border-zinc-800 p-4 rounded-xl text-center">
                 <div className="text-cyan-500 text-xs uppercase tracking-wider mb-1">Final Length</div>
                 <div className="text-xl font-bold text-cyan-400">{finalDuration.toFixed(1)}s</div>
+                {paddingDuration > 0 && (
+                    <div className="text-[10px] text-zinc-500 mt-0.5">incl. {paddingDuration.toFixed(1)}s margins</div>
+                )}
             </div>
             <div className="bg-zinc-900 border border-zinc-800 p-4 rounded-xl text-center">
                 <div className="text-green-500 text-xs uppercase tracking-wider mb-1">Estimated Reduction</div>
@@ -225,7 +486,7 @@ function App() {
                  
                  {state === ProcessingState.ANALYZING_AUDIO && (
                      <div className="mt-8">
-                         <ProcessingView />
+                         <ProcessingView progress={analysisProgress} onCancel={cancelAnalysis} />
                      </div>
                  )}
             </div>
@@ -237,8 +498,12 @@ function App() {
                 
                 {/* Left Column: Preview & Stats */}
                 <div className="lg:col-span-2 space-y-6">
+                    {!file && state === ProcessingState.ANALYZING_AUDIO && (
+                        <ProcessingView progress={analysisProgress} onCancel={cancelAnalysis} />
+                    )}
+
                     {/* Mode: Analysis Only (No File) */}
-                    {!file && aiAnalysis && (
+                    {!file && aiAnalysis && state !== ProcessingState.ANALYZING_AUDIO && (
                         <div className="bg-zinc-900 border border-zinc-800 rounded-2xl p-8 text-center space-y-4">
                             <div className="w-16 h-16 bg-zinc-800 rounded-full flex items-center justify-center mx-auto">
                                 <Upload className="w-8 h-8 text-zinc-500" />
@@ -274,7 +539,7 @@ function App() {
                                     Smart Preview & Edit
                                 </h3>
                                 <button 
-                                    onClick={() => { setFile(null); setAiAnalysis(null); setSegments([]); }} 
+                                    onClick={() => { setFile(null); setProjectAudio(null); setVoiceFeatures(null); setAiAnalysis(null); setSegments([]); setSubtitles(null); }} 
                                     className="text-sm text-zinc-500 hover:text-red-400 transition-colors"
                                 >
                                     Reset Project
@@ -283,12 +548,21 @@ function App() {
                             
                             <VideoPreview 
                                 file={file} 
-                                segments={segments} 
+                                segments={editSegments} 
+                                plan={editPlan}
                                 autoSkip={autoSkip}
                                 onAutoSkipToggle={setAutoSkip}
                                 exportConfig={exportConfig}
-                                onUpdateConfig={(cfg) => setExportConfig(prev => ({...prev, ...cfg}))}
+                                onUpdateConfig={(cfg) => updateExportConfig(cfg, 'Background music')}
+                                onRangesChange={(ranges, label) => updateExportConfig({ ranges }, label)}
                                 duration={originalDuration}
+                                envelope={projectAudio?.envelope}
+                                subtitles={subtitles?.cues}
+                                manualEditCount={manualEdits.overrides.length + manualEdits.splits.length}
+                                onSegmentToggle={(segment) => updateManualEdits(prev => toggleSegmentEdit(prev, segment), segment.isSilent ? 'Keep segment' : 'Cut segment')}
+                                onBoundaryMove={(left, right, time) => updateManualEdits(prev => moveBoundaryEdit(prev, left, right, time), 'Move boundary')}
+                                onSplit={(time) => updateManualEdits(prev => splitEdit(prev, time), 'Split segment')}
+                                onClearEdits={() => updateManualEdits(() => EMPTY_MANUAL_EDITS, 'Clear manual edits')}
                             />
 
                             {renderStats()}
@@ -346,9 +620,54 @@ function App() {
                         <div className="space-y-5">
                             <div>
                                 <div className="flex justify-between text-sm mb-2">
+                                    <span className="text-zinc-400">Detection</span>
+                                    {voiceAnalyzing && (
+                                        <span className="flex items-center gap-1 text-xs text-zinc-500">
+                                            <Loader2 className="w-3 h-3 animate-spin" /> Analyzing voice...
+                                        </span>
+                                    )}
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {([['volume', 'Volume'], ['voice', 'Voice']] as [Detector, string][]).map(([detector, label]) => (
+                                        <button
+                                            key={detector}
+                                            onClick={() => updateDetection({ detector }, 'Detector')}
+                                            className={`px-3 py-2 text-xs font-medium rounded-lg border transition-all ${
+                                                detection.detector === detector
+                                                ? 'bg-cyan-500/20 border-cyan-500 text-cyan-400'
+                                                : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:bg-zinc-700'
+                                            }`}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div>
+                                <div className="flex justify-between items-center text-sm mb-2">
                                     <span className="text-zinc-400">Silence Threshold</span>
-                                    <span className="text-cyan-400">{thresholdDb} dB</span>
+                                    <div className="flex items-center gap-2">
+                                        <button
+                                            onClick={() => updateDetection({ autoCalibrate: !detection.autoCalibrate }, 'Auto threshold')}
+                                            disabled={!calibration}
+                                            className={`px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider rounded border transition-all disabled:opacity-50 ${
+                                                detection.autoCalibrate
+                                                ? 'bg-cyan-500/20 border-cyan-500 text-cyan-400'
+                                                : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:bg-zinc-700'
+                                            }`}
+                                        >
+                                            Auto
+                                        </button>
+                                        <span className="text-cyan-400">{thresholdDb} dB</span>
+                                    </div>
                                 </div>
+                                {calibration && (
+                                    <div className="flex justify-between text-[10px] text-zinc-500 mb-2 font-mono">
+                                        <span>Floor {calibration.noiseFloorDb.toFixed(0)} dB</span>
+                                        <span>Speech {calibration.speechDb.toFixed(0)} dB</span>
+                                    </div>
+                                )}
                                 <input 
                                     type="range" 
                                     min="-60" 
@@ -375,22 +694,90 @@ function App() {
                                     max="2.0" 
                                     step="0.1"
                                     value={minSilenceDuration}
-                                    onChange={(e) => {
-                                        if (file) {
-                                            setMinSilenceDuration(Number(e.target.value));
-                                            setState(ProcessingState.ANALYZING_AUDIO);
-                                            extractAudioFromVideo(file).then(buffer => {
-                                                const newSegments = detectSilence(buffer, thresholdDb, Number(e.target.value));
-                                                setSegments(newSegments);
-                                                calculateFinalDuration(newSegments, exportConfig.trimStart, exportConfig.trimEnd);
-                                                setState(ProcessingState.READY);
-                                            });
-                                        }
-                                    }}
+                                    onChange={(e) => updateDetection({ minSilenceDuration: Number(e.target.value), autoCalibrate: false }, 'Min silence duration')}
                                     className="w-full h-2 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 hover:accent-cyan-400 transition-all"
                                 />
                             </div>
 
+                            <div className="grid grid-cols-2 gap-4">
+                                {([['padBefore', 'Pre-roll'], ['padAfter', 'Post-roll']] as ['padBefore' | 'padAfter', string][]).map(([key, label]) => (
+                                    <div key={key}>
+                                        <div className="flex justify-between text-sm mb-2">
+                                            <span className="text-zinc-400">{label}</span>
+                                            <span className="text-cyan-400">{exportConfig[key].toFixed(2)}s</span>
+                                        </div>
+                                        <input 
+                                            type="range" 
+                                            min="0" 
+                                            max="0.5" 
+                                            step="0.01"
+                                            value={exportConfig[key]}
+                                            onChange={(e) => updateExportConfig({ [key]: Number(e.target.value) }, label)}
+                                            className="w-full h-2 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 hover:accent-cyan-400 transition-all"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+
+                            <div>
+                                <div className="flex justify-between text-sm mb-2">
+                                    <span className="text-zinc-400">Pauses</span>
+                                    <span className="text-cyan-400">
+                                        {exportConfig.pauseMode === 'remove' && 'Removed'}
+                                        {exportConfig.pauseMode === 'shorten' && `${exportConfig.pauseLength.toFixed(2)}s each`}
+                                        {exportConfig.pauseMode === 'speedup' && `${exportConfig.pauseSpeed}x speed`}
+                                    </span>
+                                </div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {([['remove', 'Remove'], ['shorten', 'Shorten'], ['speedup', 'Speed Up']] as [PauseMode, string][]).map(([mode, label]) => (
+                                        <button
+                                            key={mode}
+                                            onClick={() => updateExportConfig({ pauseMode: mode }, 'Pause mode')}
+                                            className={`px-2 py-1.5 text-xs font-medium rounded-lg border transition-all ${
+                                                exportConfig.pauseMode === mode
+                                                ? 'bg-cyan-500/20 border-cyan-500 text-cyan-400'
+                                                : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:bg-zinc-700'
+                                            }`}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                                {exportConfig.pauseMode === 'shorten' && (
+                                    <input 
+                                        type="range" 
+                                        min="0.05" 
+                                        max="1.0" 
+                                        step="0.05"
+                                        value={exportConfig.pauseLength}
+                                        onChange={(e) => updateExportConfig({ pauseLength: Number(e.target.value) }, 'Pause length')}
+                                        className="w-full h-2 mt-3 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 hover:accent-cyan-400 transition-all"
+                                    />
+                                )}
+                                {exportConfig.pauseMode === 'speedup' && (
+                                    <input 
+                                        type="range" 
+                                        min="1.5" 
+                                        max="8" 
+                                        step="0.5"
+                                        value={exportConfig.pauseSpeed}
+                                        onChange={(e) => updateExportConfig({ pauseSpeed: Number(e.target.value) }, 'Pause speed')}
+                                        className="w-full h-2 mt-3 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 hover:accent-cyan-400 transition-all"
+                                    />
+                                )}
+                            </div>
+
+                            {channelLevels.length > 1 && (
+                                <ChannelPicker
+                                    levels={channelLevels}
+                                    mode={detection.channelMode}
+                                    channelIndex={detection.channelIndex}
+                                    onChange={(channelMode, channelIndex) => updateDetection({ channelMode, channelIndex }, 'Channel')}
+                                />
+                            )}
+
+                            <AdvancedDetectionSettings settings={detection} onChange={(patch) => updateDetection(patch, 'Advanced detection')} />
+
                             <div className="h-px bg-zinc-800"></div>
 
                             {!aiAnalysis ? (
@@ -429,7 +816,7 @@ function App() {
                                     {['mp4', 'mov', 'avi'].map(fmt => (
                                         <button 
                                             key={fmt}
-                                            onClick={() => setExportConfig(prev => ({...prev, format: fmt as ExportFormat}))}
+                                            onClick={() => updateExportConfig({ format: fmt as ExportFormat }, 'Output format')}
                                             className={`px-3 py-2 text-xs font-medium rounded-lg border transition-all ${
                                                 exportConfig.format === fmt 
                                                 ? 'bg-cyan-500/20 border-cyan-500 text-cyan-400' 
@@ -442,7 +829,7 @@ function App() {
                                     {['mp3', 'wav', 'aac'].map(fmt => (
                                         <button 
                                             key={fmt}
-                                            onClick={() => setExportConfig(prev => ({...prev, format: fmt as ExportFormat}))}
+                                            onClick={() => updateExportConfig({ format: fmt as ExportFormat }, 'Output format')}
                                             className={`px-3 py-2 text-xs font-medium rounded-lg border transition-all ${
                                                 exportConfig.format === fmt 
                                                 ? 'bg-purple-500/20 border-purple-500 text-purple-400' 
@@ -455,14 +842,57 @@ function App() {
                                 </div>
                             </div>
                         
+                            {projectAudio && isInstantAudioFormat(exportConfig.format) && (
+                                <InstantAudioExport
+                                    fileName={file.name}
+                                    audioBuffer={projectAudio.audioBuffer}
+                                    plan={editPlan}
+                                    format={exportConfig.format}
+                                    bgMusicFile={exportConfig.bgMusicFile}
+                                />
+                            )}
+
+                            <BrowserRender
+                                file={file}
+                                plan={editPlan}
+                                format={exportConfig.format}
+                                bgMusicFile={exportConfig.bgMusicFile}
+                            />
+
+                            <div>
+                                <label className="text-xs text-zinc-500 uppercase tracking-wider mb-2 block">Script Mode</label>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {SCRIPT_MODES.map(({ mode, label, hint }) => (
+                                        <button
+                                            key={mode}
+                                            onClick={() => updateExportConfig({ scriptMode: mode }, 'Script mode')}
+                                            disabled={mode === 'copy' && !canStreamCopy}
+                                            title={hint}
+                                            className={`px-3 py-2 text-xs font-medium rounded-lg border transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                                                exportConfig.scriptMode === mode
+                                                ? 'bg-cyan-500/20 border-cyan-500 text-cyan-400'
+                                                : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:bg-zinc-700'
+                                            }`}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {exportConfig.scriptMode === 'copy' && snappedPlan && <KeyframeDrift pieces={snappedPlan} />}
+
                             <p className="text-xs text-zinc-500 bg-zinc-800/50 p-3 rounded-lg border border-zinc-800">
-                                Download a processing script. Run this script in the folder containing your media file to generate the final high-quality output.
+                                Or download a processing script. Run this script in the folder containing your media file to generate the final high-quality output.
                             </p>
+                            {planEmpty && (
+                                <p className="text-xs text-amber-400">Every part of the media is cut, so there is nothing to export.</p>
+                            )}
                             
-                            <div className="grid grid-cols-2 gap-3">
+                            <div className="grid grid-cols-3 gap-3">
                                 <button 
                                     onClick={() => downloadScript('win')}
-                                    disabled={!file}
+                                    disabled={!file || scriptUnavailable}
                                     className="flex flex-col items-center justify-center p-4 rounded-xl bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 hover:border-zinc-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed group"
                                 >
                                     <Terminal className="w-6 h-6 text-cyan-400 mb-2 group-hover:scale-110 transition-transform" />
@@ -470,13 +900,42 @@ function App() {
                                 </button>
                                 <button 
                                     onClick={() => downloadScript('unix')}
-                                    disabled={!file}
+                                    disabled={!file || scriptUnavailable}
                                     className="flex flex-col items-center justify-center p-4 rounded-xl bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 hover:border-zinc-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed group"
                                 >
                                     <Terminal className="w-6 h-6 text-purple-400 mb-2 group-hover:scale-110 transition-transform" />
                                     <span className="text-sm font-medium">Mac/Linux .sh</span>
                                 </button>
+                                <button 
+                                    onClick={() => downloadScript('ps1')}
+                                    disabled={!file || scriptUnavailable}
+                                    className="flex flex-col items-center justify-center p-4 rounded-xl bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 hover:border-zinc-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed group"
+                                >
+                                    <Terminal className="w-6 h-6 text-blue-400 mb-2 group-hover:scale-110 transition-transform" />
+                                    <span className="text-sm font-medium">PowerShell .ps1</span>
+                                </button>
                             </div>
+
+                            <CutListExport
+                                file={file}
+                                plan={editPlan}
+                                duration={originalDuration}
+                                videoTrack={videoTrack}
+                                audioBuffer={projectAudio?.audioBuffer ?? null}
+                            />
+
+                            <SubtitlePanel
+                                mediaName={file.name}
+                                subtitles={subtitles}
+                                plan={subtitlePlan}
+                                onLoad={loadSubtitles}
+                                onClear={() => setSubtitles(null)}
+                                burnIn={exportConfig.burnSubtitles}
+                                canBurnIn={canBurnSubtitles}
+                                onBurnInChange={(burnSubtitles) => updateExportConfig({ burnSubtitles }, 'Burn in subtitles')}
+                            />
+
+                            <ProjectFileControls onSave={saveProjectFile} onLoad={loadProjectFile} />
                         </div>
                         ) : (
                             <div className="flex flex-col items-center justify-center p-6 bg-zinc-800/20 border border-dashed border-zinc-800 rounded-xl text-center">
@@ -491,6 +950,18 @@ function App() {
                         )}
                     </div>
 
+                    {file && (
+                        <HistoryPanel
+                            labels={history.entries.map(entry => entry.label)}
+                            index={history.index}
+                            canUndo={history.canUndo}
+                            canRedo={history.canRedo}
+                            onUndo={history.undo}
+                            onRedo={history.redo}
+                            onJump={history.jumpTo}
+                        />
+                    )}
+
                 </div>
             </div>
         )}
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { DetectionSettings } from '../types';
+
+interface AdvancedDetectionSettingsProps {
+  settings: DetectionSettings;
+  onChange: (patch: Partial<DetectionSettings>) => void;
+}
+
+interface SliderRowProps {
+  label: string;
+  value: number;
+  display: string;
+  min: number;
+  max: number;
+  step: number;
+  hint?: string;
+  onChange: (value: number) => void;
+}
+
+const SliderRow: React.FC<SliderRowProps> = ({ label, value, display, min, max, step, hint, onChange }) => (
+  <div>
+    <div className="flex justify-between text-xs mb-1.5">
+      <span className="text-zinc-400" title={hint}>{label}</span>
+      <span className="text-cyan-400 font-mono">{display}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full h-1.5 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-cyan-500 hover:accent-cyan-400 transition-all"
+    />
+  </div>
+);
+
+const AdvancedDetectionSettings: React.FC<AdvancedDetectionSettingsProps> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const closeThresholdDb = settings.thresholdDb - settings.hysteresisDb;
+
+  return (
+    <div>
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-xs text-zinc-500 hover:text-zinc-300 uppercase tracking-wider transition-colors"
+      >
+        {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        Advanced
+      </button>
+
+      {open && (
+        <div className="mt-4 space-y-4 pl-4 border-l border-zinc-800">
+          <SliderRow
+            label="Close Threshold"
+            hint="Speech ends only when the level drops below this. Keep it under the silence threshold to stop flutter around it."
+            value={closeThresholdDb}
+            display={`${closeThresholdDb} dB`}
+            min={-60}
+            max={settings.thresholdDb}
+            step={1}
+            onChange={(value) => onChange({ hysteresisDb: settings.thresholdDb - value })}
+          />
+          <SliderRow
+            label="Attack"
+            hint="How long the level must stay above the threshold before speech starts. Filters out clicks."
+            value={settings.attack}
+            display={`${Math.round(settings.attack * 1000)} ms`}
+            min={0}
+            max={0.5}
+            step={0.01}
+            onChange={(attack) => onChange({ attack })}
+          />
+          <SliderRow
+            label="Release"
+            hint="How long the level must stay below the close threshold before speech ends. Bridges short dips."
+            value={settings.release}
+            display={`${Math.round(settings.release * 1000)} ms`}
+            min={0}
+            max={1}
+            step={0.05}
+            onChange={(release) => onChange({ release })}
+          />
+          <SliderRow
+            label="Window Size"
+            hint="Length of each RMS measurement window."
+            value={settings.windowSize}
+            display={`${Math.round(settings.windowSize * 1000)} ms`}
+            min={0.01}
+            max={0.2}
+            step={0.01}
+            onChange={(windowSize) => onChange({ windowSize })}
+          />
+          <SliderRow
+            label="Min Speech Duration"
+            hint="Speech shorter than this between two silences is treated as silence (coughs, blips)."
+            value={settings.minSpeechDuration}
+            display={`${settings.minSpeechDuration.toFixed(2)}s`}
+            min={0}
+            max={1}
+            step={0.05}
+            onChange={(minSpeechDuration) => onChange({ minSpeechDuration })}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdvancedDetectionSettings;
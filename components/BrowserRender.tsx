@@ -0,0 +1,88 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Cpu, Loader2, X } from 'lucide-react';
+import { ExportFormat } from '../types';
+import { EditPiece } from '../utils/editTimeline';
+import { renderInBrowser, RenderProgress } from '../utils/browserRender';
+import { isAbortError } from '../utils/mediaAnalysis';
+import { downloadBlob } from '../utils/download';
+
+interface BrowserRenderProps {
+  file: File;
+  plan: EditPiece[];
+  format: ExportFormat;
+  bgMusicFile: File | null;
+}
+
+// Renders the final file with ffmpeg.wasm and downloads it, no script needed
+const BrowserRender: React.FC<BrowserRenderProps> = ({ file, plan, format, bgMusicFile }) => {
+  const [progress, setProgress] = useState<RenderProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Leaving the project stops a render in flight
+  useEffect(() => () => abortRef.current?.abort(), [file]);
+
+  const startRender = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress({ stage: 'loading', progress: 0 });
+    try {
+      const blob = await renderInBrowser(file, plan, {
+        format,
+        bgMusicFile,
+        signal: controller.signal,
+        onProgress: setProgress
+      });
+      const baseName = file.name.replace(/\s+/g, '_').replace(/\.[^/.]+$/, '');
+      downloadBlob(blob, `${baseName}_edited.${format}`);
+    } catch (e) {
+      if (!isAbortError(e)) {
+        console.error(e);
+        setError(e instanceof Error ? e.message : 'Render failed');
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  if (!progress) {
+    return (
+      <div className="space-y-2">
+        <button
+          onClick={startRender}
+          disabled={plan.length === 0}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-xl bg-cyan-600 hover:bg-cyan-500 text-white text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Cpu className="w-4 h-4" /> Render in browser
+        </button>
+        {error && <p className="text-xs text-red-400">Render failed: {error}</p>}
+      </div>
+    );
+  }
+
+  const percent = Math.floor(progress.progress * 100);
+  return (
+    <div className="space-y-2 p-3 rounded-xl bg-zinc-800/50 border border-zinc-800">
+      <div className="flex items-center justify-between text-xs">
+        <span className="flex items-center gap-2 text-zinc-300">
+          <Loader2 className="w-3.5 h-3.5 animate-spin text-cyan-400" />
+          {progress.stage === 'loading' ? 'Loading encoder…' : `Rendering… ${percent}%`}
+        </span>
+        <button
+          onClick={() => abortRef.current?.abort()}
+          className="flex items-center gap-1 text-zinc-500 hover:text-zinc-200 transition-colors"
+        >
+          <X className="w-3.5 h-3.5" /> Cancel
+        </button>
+      </div>
+      <div className="h-1.5 w-full bg-zinc-800 rounded-full overflow-hidden">
+        <div className="h-full bg-cyan-500 transition-all duration-200 ease-out" style={{ width: `${percent}%` }} />
+      </div>
+      <p className="text-[10px] text-zinc-600">Encoding runs on this device and is slower than the script; keep this tab open.</p>
+    </div>
+  );
+};
+
+export default BrowserRender;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { ChannelLevel, ChannelMode } from '../types';
+
+interface ChannelPickerProps {
+  levels: ChannelLevel[];
+  mode: ChannelMode;
+  channelIndex: number;
+  onChange: (mode: ChannelMode, channelIndex: number) => void;
+}
+
+// Meter range in dB
+const METER_MIN = -60;
+const METER_MAX = 0;
+
+const toPercent = (db: number) =>
+  Math.max(0, Math.min(100, ((db - METER_MIN) / (METER_MAX - METER_MIN)) * 100));
+
+const ChannelPicker: React.FC<ChannelPickerProps> = ({ levels, mode, channelIndex, onChange }) => {
+  const buttonClass = (active: boolean) =>
+    `px-3 py-1.5 text-xs font-medium rounded-lg border transition-all ${
+      active
+        ? 'bg-cyan-500/20 border-cyan-500 text-cyan-400'
+        : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:bg-zinc-700'
+    }`;
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-2">
+        <span className="text-zinc-400">Channels</span>
+        <span className="text-cyan-400">
+          {mode === 'mix' ? 'Mixdown' : mode === 'loudest' ? 'Loudest' : `Ch ${channelIndex + 1}`}
+        </span>
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <button onClick={() => onChange('mix', channelIndex)} className={buttonClass(mode === 'mix')}>
+          Mix
+        </button>
+        <button onClick={() => onChange('loudest', channelIndex)} className={buttonClass(mode === 'loudest')}>
+          Loudest
+        </button>
+      </div>
+
+      <div className="space-y-1.5">
+        {levels.map((level, index) => {
+          const active = mode === 'channel' && channelIndex === index;
+          return (
+            <button
+              key={index}
+              onClick={() => onChange('channel', index)}
+              className={`w-full flex items-center gap-2 px-2 py-1 rounded-md border transition-all ${
+                active ? 'border-cyan-500 bg-cyan-500/10' : 'border-transparent hover:bg-zinc-800'
+              }`}
+              title={`Speech ${level.levelDb.toFixed(0)} dB, floor ${level.floorDb.toFixed(0)} dB`}
+            >
+              <span className={`text-[10px] font-mono w-8 text-left ${active ? 'text-cyan-400' : 'text-zinc-500'}`}>
+                Ch {index + 1}
+              </span>
+              <div className="relative flex-1 h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                <div
+                  className="absolute inset-y-0 left-0 bg-gradient-to-r from-green-600 to-cyan-400"
+                  style={{ width: `${toPercent(level.levelDb)}%` }}
+                ></div>
+                <div
+                  className="absolute inset-y-0 w-px bg-zinc-400"
+                  style={{ left: `${toPercent(level.floorDb)}%` }}
+                ></div>
+              </div>
+              <span className="text-[10px] font-mono w-10 text-right text-zinc-500">
+                {level.levelDb.toFixed(0)} dB
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ChannelPicker;
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { ListVideo } from 'lucide-react';
+import { EditPiece } from '../utils/editTimeline';
+import { VideoTrackInfo } from '../utils/keyframes';
+import {
+  closestFrameRate,
+  FRAME_RATES,
+  FrameRate,
+  generateEdl,
+  generateFcpxml,
+  generateXmeml,
+  NleSource
+} from '../utils/nleExport';
+import { downloadBlob } from '../utils/download';
+
+interface CutListExportProps {
+  file: File;
+  plan: EditPiece[];
+  duration: number;
+  videoTrack: VideoTrackInfo | null;
+  audioBuffer: AudioBuffer | null;
+}
+
+const FORMATS: { label: string; ext: string; generate: (plan: EditPiece[], source: NleSource) => string }[] = [
+  { label: 'EDL', ext: 'edl', generate: generateEdl },
+  { label: 'FCPXML', ext: 'fcpxml', generate: generateFcpxml },
+  { label: 'Premiere XML', ext: 'xml', generate: generateXmeml }
+];
+
+// Used when the container could not be read for its frame rate or size
+const DEFAULT_FRAME_RATE = FRAME_RATES[4]; // 30
+const DEFAULT_SIZE = { width: 1920, height: 1080 };
+
+// Cut lists that open the edit as a timeline in Resolve, Final Cut or Premiere
+const CutListExport: React.FC<CutListExportProps> = ({ file, plan, duration, videoTrack, audioBuffer }) => {
+  const [frameRate, setFrameRate] = useState<FrameRate>(DEFAULT_FRAME_RATE);
+
+  useEffect(() => {
+    setFrameRate(videoTrack ? closestFrameRate(videoTrack.frameRate) : DEFAULT_FRAME_RATE);
+  }, [videoTrack]);
+
+  const hasVideo = !file.type.includes('audio');
+
+  const download = (format: typeof FORMATS[number]) => {
+    const source: NleSource = {
+      name: file.name,
+      duration,
+      frameRate,
+      hasVideo,
+      width: videoTrack?.width || DEFAULT_SIZE.width,
+      height: videoTrack?.height || DEFAULT_SIZE.height,
+      audioChannels: audioBuffer?.numberOfChannels ?? 2,
+      sampleRate: audioBuffer?.sampleRate ?? 48000
+    };
+    const baseName = file.name.replace(/\s+/g, '_').replace(/\.[^/.]+$/, '');
+    downloadBlob(new Blob([format.generate(plan, source)], { type: 'text/plain' }), `${baseName}_edited.${format.ext}`);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-xs text-zinc-500 uppercase tracking-wider flex items-center gap-1.5">
+          <ListVideo className="w-3.5 h-3.5" /> Cut List for Editors
+        </label>
+        <select
+          value={frameRate.label}
+          onChange={(e) => setFrameRate(FRAME_RATES.find(rate => rate.label === e.target.value) ?? DEFAULT_FRAME_RATE)}
+          title={videoTrack ? `Detected ${videoTrack.frameRate.toFixed(3)} fps` : 'Frame rate could not be read from the file'}
+          className="bg-zinc-800 border border-zinc-700 rounded-md px-2 py-1 text-xs text-zinc-300"
+        >
+          {FRAME_RATES.map(rate => (
+            <option key={rate.label} value={rate.label}>{rate.label} fps</option>
+          ))}
+        </select>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {FORMATS.map(format => (
+          <button
+            key={format.ext}
+            onClick={() => download(format)}
+            disabled={plan.length === 0}
+            className="px-3 py-2 text-xs font-medium rounded-lg border bg-zinc-800 border-zinc-700 text-zinc-300 hover:bg-zinc-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {format.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-zinc-600">Point the editor at the original file when it asks to relink media.</p>
+    </div>
+  );
+};
+
+export default CutListExport;
@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createFrameGrabber, FrameGrabber } from '../utils/frameGrabber';
+
+interface FilmstripLaneProps {
+  file: File;
+  duration: number;
+  viewStart: number;
+  viewSpan: number;
+  // Maps lane time to source time when the timeline shows the edited output
+  toSource?: (time: number) => number;
+}
+
+const LANE_HEIGHT = 40;
+// Frame spacings in seconds; the lane uses the first one leaving room for a
+// whole thumbnail so scrolling at the same zoom hits the cache
+const FRAME_STEPS = [0.04, 0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 30, 60, 120, 300, 600, 1200];
+
+const pickStep = (minStep: number) => {
+  const step = FRAME_STEPS.find(s => s >= minStep);
+  if (step) return step;
+  const largest = FRAME_STEPS[FRAME_STEPS.length - 1];
+  return Math.ceil(minStep / largest) * largest;
+};
+
+// Thumbnails of the source video aligned with the timeline view below it
+const FilmstripLane: React.FC<FilmstripLaneProps> = ({ file, duration, viewStart, viewSpan, toSource }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const grabberRef = useRef<FrameGrabber | null>(null);
+  const [aspect, setAspect] = useState<number | null>(null);
+  const [width, setWidth] = useState(0);
+  // Bumped whenever a frame lands in the cache so the lane redraws
+  const [frameCount, setFrameCount] = useState(0);
+
+  useEffect(() => {
+    const grabber = createFrameGrabber(file, LANE_HEIGHT);
+    grabberRef.current = grabber;
+    grabber.onFrame = () => setFrameCount(count => count + 1);
+    grabber.ready.then(setAspect).catch(() => setAspect(null));
+    return () => {
+      grabber.dispose();
+      grabberRef.current = null;
+      setAspect(null);
+    };
+  }, [file]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setWidth(container.clientWidth));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const grabber = grabberRef.current;
+    if (!canvas || width === 0) return;
+
+    canvas.width = width;
+    canvas.height = LANE_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.fillStyle = '#18181b'; // Zinc-900
+    ctx.fillRect(0, 0, width, LANE_HEIGHT);
+    if (!grabber || !aspect || duration === 0 || viewSpan === 0) return;
+
+    const thumbWidth = LANE_HEIGHT * aspect;
+    const step = pickStep((thumbWidth / width) * viewSpan);
+    const getX = (time: number) => ((time - viewStart) / viewSpan) * width;
+
+    const wanted: number[] = [];
+    for (let i = Math.floor(viewStart / step); i * step < Math.min(duration, viewStart + viewSpan); i++) {
+      const x = getX(i * step);
+      const time = toSource ? toSource(i * step) : i * step;
+      const frame = grabber.getFrame(time);
+      if (frame) {
+        ctx.drawImage(frame, x, 0, thumbWidth, LANE_HEIGHT);
+      } else {
+        ctx.fillStyle = '#27272a'; // Zinc-800
+        ctx.fillRect(x + 1, 1, thumbWidth - 2, LANE_HEIGHT - 2);
+        wanted.push(time);
+      }
+      // Tick marking the exact time the frame was taken from
+      ctx.fillStyle = '#09090b';
+      ctx.fillRect(x, 0, 1, LANE_HEIGHT);
+    }
+
+    // Frames nearest the middle of the view come first
+    const middle = toSource ? toSource(viewStart + viewSpan / 2) : viewStart + viewSpan / 2;
+    wanted.sort((a, b) => Math.abs(a - middle) - Math.abs(b - middle));
+    grabber.request(wanted);
+  }, [aspect, width, duration, viewStart, viewSpan, frameCount, toSource]);
+
+  return (
+    <div className="w-full mb-1" ref={containerRef}>
+      <canvas ref={canvasRef} className="w-full h-10 rounded pointer-events-none" />
+    </div>
+  );
+};
+
+export default FilmstripLane;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { History, Undo2, Redo2 } from 'lucide-react';
+
+interface HistoryPanelProps {
+  labels: string[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ labels, index, canUndo, canRedo, onUndo, onRedo, onJump }) => {
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-2xl p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-zinc-100 font-medium">
+          <History className="w-5 h-5 text-zinc-500" />
+          History
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+            className="p-1.5 rounded-lg text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            className="p-1.5 rounded-lg text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <ol className="max-h-48 overflow-y-auto space-y-0.5 text-xs">
+        {labels.map((label, i) => (
+          <li key={i}>
+            <button
+              onClick={() => onJump(i)}
+              className={`w-full text-left px-2 py-1 rounded-md transition-colors ${
+                i === index
+                  ? 'bg-cyan-500/20 text-cyan-400'
+                  : i > index
+                    ? 'text-zinc-600 hover:bg-zinc-800'
+                    : 'text-zinc-400 hover:bg-zinc-800'
+              }`}
+            >
+              {label}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default HistoryPanel;
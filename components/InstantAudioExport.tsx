@@ -0,0 +1,83 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, X, Zap } from 'lucide-react';
+import { EditPiece } from '../utils/editTimeline';
+import { AudioExportFormat, renderAudioExport } from '../utils/audioRender';
+import { extractAudioFromVideo } from '../utils/audioAnalysis';
+import { isAbortError } from '../utils/mediaAnalysis';
+import { downloadBlob } from '../utils/download';
+
+interface InstantAudioExportProps {
+  fileName: string;
+  audioBuffer: AudioBuffer;
+  plan: EditPiece[];
+  format: AudioExportFormat;
+  bgMusicFile: File | null;
+}
+
+// Audio-only export from the already decoded audio, downloaded as soon as it is ready
+const InstantAudioExport: React.FC<InstantAudioExportProps> = ({ fileName, audioBuffer, plan, format, bgMusicFile }) => {
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), [audioBuffer]);
+
+  const startExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+    try {
+      const bgMusic = bgMusicFile ? await extractAudioFromVideo(bgMusicFile) : null;
+      const blob = await renderAudioExport(audioBuffer, plan, {
+        format,
+        bgMusic,
+        signal: controller.signal,
+        onProgress: setProgress
+      });
+      const baseName = fileName.replace(/\s+/g, '_').replace(/\.[^/.]+$/, '');
+      downloadBlob(blob, `${baseName}_edited.${format}`);
+    } catch (e) {
+      if (!isAbortError(e)) {
+        console.error(e);
+        setError(e instanceof Error ? e.message : 'Export failed');
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  if (progress === null) {
+    return (
+      <div className="space-y-2">
+        <button
+          onClick={startExport}
+          disabled={plan.length === 0}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-xl bg-purple-600 hover:bg-purple-500 text-white text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Zap className="w-4 h-4" /> Instant {format.toUpperCase()} export
+        </button>
+        {error && <p className="text-xs text-red-400">Export failed: {error}</p>}
+      </div>
+    );
+  }
+
+  const percent = Math.floor(progress * 100);
+  return (
+    <div className="flex items-center justify-between p-3 rounded-xl bg-zinc-800/50 border border-zinc-800 text-xs">
+      <span className="flex items-center gap-2 text-zinc-300">
+        <Loader2 className="w-3.5 h-3.5 animate-spin text-purple-400" />
+        {format === 'mp3' ? `Encoding MP3… ${percent}%` : 'Rendering WAV…'}
+      </span>
+      <button
+        onClick={() => abortRef.current?.abort()}
+        className="flex items-center gap-1 text-zinc-500 hover:text-zinc-200 transition-colors"
+      >
+        <X className="w-3.5 h-3.5" /> Cancel
+      </button>
+    </div>
+  );
+};
+
+export default InstantAudioExport;
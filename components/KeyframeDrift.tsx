@@ -0,0 +1,46 @@
+import React from 'react';
+import { SnappedPiece } from '../utils/keyframes';
+
+interface KeyframeDriftProps {
+  pieces: SnappedPiece[];
+}
+
+const formatSeconds = (time: number) => `${time.toFixed(2)} s`;
+
+// How far the fast export moves each cut to reach a keyframe
+const KeyframeDrift: React.FC<KeyframeDriftProps> = ({ pieces }) => {
+  const moves = pieces.map(piece => ({
+    early: piece.requestedStart - piece.start,
+    late: piece.end - piece.requestedEnd
+  }));
+  const largest = moves.reduce((max, move) => Math.max(max, move.early, Number.isFinite(move.late) ? move.late : 0), 0);
+  const added = moves.reduce((sum, move) => sum + move.early + (Number.isFinite(move.late) ? move.late : 0), 0);
+
+  return (
+    <div className="text-xs bg-zinc-800/50 p-3 rounded-lg border border-zinc-800 space-y-2">
+      <p className="text-zinc-400">
+        Cuts move out to the nearest keyframe: up to <span className="text-amber-400 font-mono">{formatSeconds(largest)}</span>,
+        {' '}<span className="font-mono">{formatSeconds(added)}</span> more footage in total. Pause speed-up is lost in a stream copy.
+      </p>
+      <ul className="max-h-32 overflow-y-auto font-mono text-[11px] text-zinc-500 divide-y divide-zinc-800/60">
+        {pieces.map((piece, index) => (
+          <li key={index} className="flex justify-between py-1 gap-2">
+            <span>#{index + 1}</span>
+            <span>
+              in {formatSeconds(piece.start)}
+              <span className={moves[index].early > 0.5 ? 'text-amber-400' : ''}> (−{formatSeconds(moves[index].early)})</span>
+            </span>
+            <span>
+              out {Number.isFinite(piece.end) ? formatSeconds(piece.end) : 'end'}
+              {Number.isFinite(moves[index].late) && (
+                <span className={moves[index].late > 0.5 ? 'text-amber-400' : ''}> (+{formatSeconds(moves[index].late)})</span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default KeyframeDrift;
@@ -1,34 +1,28 @@
-import React, { useEffect, useState } from 'react';
-import { Activity, Scissors, FileAudio } from 'lucide-react';
+import React from 'react';
+import { Activity, Scissors, FileAudio, X } from 'lucide-react';
+import { AnalysisProgress, AnalysisStage } from '../types';
 
-const ProcessingView: React.FC = () => {
-  const [progress, setProgress] = useState(0);
-  
-  // Simulation of progress with varying speed to look realistic
-  useEffect(() => {
-    let animationFrame: number;
-    let currentProgress = 0;
+interface ProcessingViewProps {
+  progress: AnalysisProgress | null;
+  onCancel: () => void;
+}
 
-    const animate = () => {
-      // Fast start, slower end to simulate heavy computation at the end
-      const increment = Math.max(0.05, (98 - currentProgress) / 60); 
-      currentProgress += increment;
-      
-      if (currentProgress >= 99) currentProgress = 99;
-      
-      setProgress(currentProgress);
-      animationFrame = requestAnimationFrame(animate);
-    };
+const STATUS_TEXT: Record<AnalysisStage, string> = {
+  read: "Reading media file...",
+  decode: "Decoding audio stream...",
+  envelope: "Building loudness envelope...",
+  segmentation: "Calculating optimal cut points..."
+};
 
-    animationFrame = requestAnimationFrame(animate);
-    return () => cancelAnimationFrame(animationFrame);
-  }, []);
+const ProcessingView: React.FC<ProcessingViewProps> = ({ progress: analysisProgress, onCancel }) => {
+  const progress = (analysisProgress?.overall ?? 0) * 100;
 
-  const getStatusText = (p: number) => {
-      if (p < 25) return "Extracting audio stream...";
-      if (p < 50) return "Decoding waveform data...";
-      if (p < 75) return "Analyzing silence patterns...";
-      return "Calculating optimal cut points...";
+  const getStatusText = () => {
+      if (!analysisProgress) return "Starting analysis worker...";
+      const text = STATUS_TEXT[analysisProgress.stage];
+      // Decoding happens inside the browser and reports no progress of its own
+      if (analysisProgress.stage === 'decode') return text;
+      return `${text} ${Math.floor(analysisProgress.stageProgress * 100)}%`;
   };
 
   return (
@@ -68,7 +62,7 @@ const ProcessingView: React.FC = () => {
         <div className="space-y-2">
             <h3 className="text-2xl font-bold text-white tracking-tight">Processing Media</h3>
             <p className="text-cyan-400 font-mono text-sm h-6 transition-all duration-300">
-                {`> ${getStatusText(progress)}`}
+                {`> ${getStatusText()}`}
                 <span className="animate-pulse">_</span>
             </p>
         </div>
@@ -76,7 +70,7 @@ const ProcessingView: React.FC = () => {
         <div className="relative pt-2">
             <div className="h-1.5 w-full bg-zinc-800 rounded-full overflow-hidden">
                 <div 
-                    className="h-full bg-gradient-to-r from-cyan-500 via-blue-500 to-cyan-500 bg-[length:200%_100%] animate-[shimmer_2s_linear_infinite] transition-all duration-100 ease-out"
+                    className="h-full bg-gradient-to-r from-cyan-500 via-blue-500 to-cyan-500 bg-[length:200%_100%] animate-[shimmer_2s_linear_infinite] transition-all duration-200 ease-out"
                     style={{ width: `${progress}%` }}
                 ></div>
             </div>
@@ -86,6 +80,14 @@ const ProcessingView: React.FC = () => {
                 <span>Finalizing</span>
             </div>
         </div>
+
+        <button
+            onClick={onCancel}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm text-zinc-400 hover:text-red-400 bg-zinc-900 border border-zinc-800 hover:border-red-500/40 rounded-lg transition-colors"
+        >
+            <X className="w-4 h-4" />
+            Cancel
+        </button>
       </div>
 
     </div>
@@ -0,0 +1,65 @@
+import React, { useRef, useState } from 'react';
+import { AlertTriangle, FileBraces, FileSpreadsheet, FolderOpen } from 'lucide-react';
+
+interface ProjectFileControlsProps {
+  onSave: (kind: 'json' | 'csv') => Promise<void>;
+  // Resolves with warnings to show, rejects when the file can't be used
+  onLoad: (file: File) => Promise<string[]>;
+}
+
+// Save the cut decisions as JSON / CSV and load them back
+const ProjectFileControls: React.FC<ProjectFileControlsProps> = ({ onSave, onLoad }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [messages, setMessages] = useState<{ tone: 'warning' | 'error'; text: string }[]>([]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const warnings = await onLoad(file);
+      setMessages(warnings.map(text => ({ tone: 'warning', text })));
+    } catch (error) {
+      setMessages([{ tone: 'error', text: error instanceof Error ? error.message : 'Could not load the cut list' }]);
+    }
+  };
+
+  const handleSave = async (kind: 'json' | 'csv') => {
+    try {
+      setMessages([]);
+      await onSave(kind);
+    } catch (error) {
+      setMessages([{ tone: 'error', text: error instanceof Error ? error.message : 'Could not save the cut list' }]);
+    }
+  };
+
+  const buttonClass = 'flex items-center justify-center gap-1.5 px-3 py-2 text-xs font-medium rounded-lg border bg-zinc-800 border-zinc-700 text-zinc-300 hover:bg-zinc-700 transition-all';
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs text-zinc-500 uppercase tracking-wider block">Project Cut List</label>
+      <div className="grid grid-cols-3 gap-2">
+        <button onClick={() => handleSave('json')} className={buttonClass}>
+          <FileBraces className="w-3.5 h-3.5" /> JSON
+        </button>
+        <button onClick={() => handleSave('csv')} className={buttonClass}>
+          <FileSpreadsheet className="w-3.5 h-3.5" /> CSV
+        </button>
+        <button onClick={() => inputRef.current?.click()} className={buttonClass}>
+          <FolderOpen className="w-3.5 h-3.5" /> Load
+        </button>
+      </div>
+      <input ref={inputRef} type="file" accept=".json,.csv,application/json,text/csv" className="hidden" onChange={handleFile} />
+      {messages.map((message, index) => (
+        <p
+          key={index}
+          className={`flex items-start gap-1.5 text-xs ${message.tone === 'error' ? 'text-red-400' : 'text-amber-400'}`}
+        >
+          <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" /> {message.text}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default ProjectFileControls;
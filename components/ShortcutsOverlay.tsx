@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { Keyboard, X } from 'lucide-react';
+import {
+  DEFAULT_BINDINGS,
+  formatBinding,
+  isModifierKey,
+  KeyBindings,
+  keyFromEvent,
+  rebind,
+  ShortcutAction,
+  SHORTCUTS
+} from '../utils/shortcuts';
+
+interface ShortcutsOverlayProps {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+  onClose: () => void;
+}
+
+// Cheat sheet of all shortcuts; clicking a key lets the user press a new one
+const ShortcutsOverlay: React.FC<ShortcutsOverlayProps> = ({ bindings, onChange, onClose }) => {
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!recording) {
+        if (e.key === 'Escape') onClose();
+        return;
+      }
+      // Capture phase: nothing else reacts to the key being recorded
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setRecording(null);
+        return;
+      }
+      if (isModifierKey(e)) return;
+      onChange(rebind(bindings, recording, keyFromEvent(e)));
+      setRecording(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recording, bindings, onChange, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <h3 className="text-sm font-semibold text-zinc-200 flex items-center gap-2">
+            <Keyboard className="w-4 h-4 text-cyan-400" /> Keyboard Shortcuts
+          </h3>
+          <button onClick={onClose} className="p-1 rounded-lg text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="px-5 py-3 max-h-[60vh] overflow-y-auto divide-y divide-zinc-800/60">
+          {SHORTCUTS.map(({ action, label }) => (
+            <div key={action} className="flex items-center justify-between py-2 gap-4">
+              <span className="text-sm text-zinc-400">{label}</span>
+              <button
+                onClick={() => setRecording(recording === action ? null : action)}
+                title="Click, then press the new key"
+                className={`min-w-[72px] px-2 py-1 rounded-md border font-mono text-xs transition-colors ${
+                  recording === action
+                    ? 'border-cyan-500 bg-cyan-500/10 text-cyan-400 animate-pulse'
+                    : 'border-zinc-700 bg-zinc-800 text-zinc-300 hover:border-zinc-500'
+                }`}
+              >
+                {recording === action ? 'Press key…' : formatBinding(bindings[action])}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between px-5 py-3 border-t border-zinc-800">
+          <span className="text-[10px] text-zinc-600">Esc cancels. A key taken from another action leaves that one unbound.</span>
+          <button
+            onClick={() => onChange(DEFAULT_BINDINGS)}
+            className="text-xs text-zinc-500 hover:text-zinc-200 transition-colors"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsOverlay;
@@ -0,0 +1,100 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Captions, X } from 'lucide-react';
+import { EditPiece } from '../utils/editTimeline';
+import { formatSubtitles, retimeCues, SubtitleCue, subtitleFileName, SubtitleFormat } from '../utils/subtitles';
+import { downloadBlob } from '../utils/download';
+
+interface SubtitlePanelProps {
+  mediaName: string;
+  subtitles: { name: string; cues: SubtitleCue[] } | null;
+  plan: EditPiece[];
+  onLoad: (file: File) => Promise<void>;
+  onClear: () => void;
+  burnIn: boolean;
+  canBurnIn: boolean;
+  onBurnInChange: (burnIn: boolean) => void;
+}
+
+// Load captions, see what the cuts do to them and download them retimed
+const SubtitlePanel: React.FC<SubtitlePanelProps> = ({
+  mediaName,
+  subtitles,
+  plan,
+  onLoad,
+  onClear,
+  burnIn,
+  canBurnIn,
+  onBurnInChange
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const dropped = useMemo(
+    () => (subtitles ? subtitles.cues.filter(cue => retimeCues([cue], plan).length === 0).length : 0),
+    [subtitles, plan]
+  );
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setError(null);
+      await onLoad(file);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the subtitles');
+    }
+  };
+
+  const download = (format: SubtitleFormat) => {
+    if (!subtitles) return;
+    const text = formatSubtitles(retimeCues(subtitles.cues, plan), format);
+    downloadBlob(new Blob([text], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' }), subtitleFileName(mediaName, format));
+  };
+
+  const buttonClass = 'px-3 py-2 text-xs font-medium rounded-lg border bg-zinc-800 border-zinc-700 text-zinc-300 hover:bg-zinc-700 transition-all';
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs text-zinc-500 uppercase tracking-wider flex items-center gap-1.5">
+        <Captions className="w-3.5 h-3.5" /> Subtitles
+      </label>
+      <input ref={inputRef} type="file" accept=".srt,.vtt" className="hidden" onChange={handleFile} />
+
+      {subtitles ? (
+        <>
+          <div className="flex items-center justify-between text-xs bg-zinc-800/50 px-3 py-2 rounded-lg border border-zinc-800">
+            <span className="text-zinc-300 truncate" title={subtitles.name}>
+              {subtitles.name}
+              <span className="text-zinc-500"> · {subtitles.cues.length} cues{dropped > 0 ? `, ${dropped} cut out` : ''}</span>
+            </span>
+            <button onClick={onClear} className="text-zinc-500 hover:text-zinc-200 transition-colors" title="Remove subtitles">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => download('srt')} className={buttonClass}>Retimed SRT</button>
+            <button onClick={() => download('vtt')} className={buttonClass}>Retimed VTT</button>
+          </div>
+          <label className={`flex items-center gap-2 text-xs ${canBurnIn ? 'text-zinc-400' : 'text-zinc-600'}`}>
+            <input
+              type="checkbox"
+              checked={burnIn && canBurnIn}
+              disabled={!canBurnIn}
+              onChange={(e) => onBurnInChange(e.target.checked)}
+              className="accent-cyan-500"
+            />
+            Burn into the video (script downloads the retimed SRT alongside)
+          </label>
+        </>
+      ) : (
+        <button onClick={() => inputRef.current?.click()} className={`w-full ${buttonClass}`}>
+          Load SRT / VTT
+        </button>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default SubtitlePanel;
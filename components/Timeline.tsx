@@ -1,32 +1,178 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { AudioSegment } from '../types';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize2, Film } from 'lucide-react';
+import { AudioSegment, KeepRange, RmsEnvelope } from '../types';
+import { amplitudeToDb, readEnvelopeRange } from '../utils/audioEnvelope';
+import { sortBySource } from '../utils/keepRanges';
+import { EditPiece, getPieceDuration, getPlanDuration, outputToSourceTime, sourceToOutputTime } from '../utils/editTimeline';
+import TimelineMinimap from './TimelineMinimap';
+import FilmstripLane from './FilmstripLane';
 
 interface TimelineProps {
   segments: AudioSegment[];
   duration: number;
   currentTime: number;
-  trimStart: number;
-  trimEnd: number;
+  ranges: KeepRange[]; // in output order
+  plan: EditPiece[];
+  // Show the edited output (pieces end to end, output-time ruler) instead of the source
+  outputView?: boolean;
   onSeek: (time: number) => void;
-  onTrimChange: (start: number, end: number) => void;
+  onRangeChange: (id: number, start: number, end: number) => void;
+  // Segment editing: click flips a segment, dragging a boundary moves it
+  editMode?: boolean;
+  onSegmentToggle?: (segment: AudioSegment) => void;
+  onBoundaryMove?: (left: AudioSegment, right: AudioSegment, time: number) => void;
+  onSplit?: (time: number) => void;
+  // Decoded audio levels; without it only the segment blocks are drawn
+  envelope?: RmsEnvelope | null;
+  // Source video for the optional thumbnail lane; null for audio-only files
+  videoFile?: File | null;
 }
 
+// Visible part of the file in seconds
+interface TimelineView {
+  start: number;
+  span: number;
+}
+
+// Narrowest window we zoom into
+const MIN_SPAN = 0.5;
+// Waveform floor; quieter audio draws as a flat line
+const WAVEFORM_MIN_DB = -60;
+// Candidate ruler steps in seconds, the first one giving enough room is used
+const TICK_STEPS = [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 1800, 3600];
+const MIN_TICK_PX = 60;
+// Hit areas grow for fingers and pens
+const HIT_SCALE: Record<string, number> = { mouse: 1, pen: 1.5, touch: 2.5 };
+const LONG_PRESS_MS = 500;
+// Movement (px) that turns a long press into a drag
+const LONG_PRESS_SLOP = 8;
+
+const formatSeconds = (time: number) => `${time.toFixed(1)} s`;
+
+// Spoken description of a segment and what the export does with it,
+// e.g. "silence 12.4 s to 14.0 s, will be cut"
+const describeSegment = (seg: AudioSegment, plan: EditPiece[]) => {
+  let kept = 0;
+  let spedUp = false;
+  plan.forEach(piece => {
+    const overlap = Math.min(piece.end, seg.end) - Math.max(piece.start, seg.start);
+    if (overlap <= 0) return;
+    kept += overlap;
+    if (piece.speed !== 1) spedUp = true;
+  });
+
+  const kind = seg.isSilent ? 'silence' : seg.isPadding ? 'keep margin' : 'speech';
+  const fate = kept <= 1e-3
+    ? 'will be cut'
+    : spedUp
+      ? 'will be sped up'
+      : kept < seg.end - seg.start - 1e-3 ? 'will be shortened' : 'kept';
+  const manual = seg.isManual ? ', edited by hand' : '';
+  return `${kind} ${formatSeconds(seg.start)} to ${formatSeconds(seg.end)}, ${fate}${manual}`;
+};
+
+const clampView = (view: TimelineView, duration: number): TimelineView => {
+  const span = Math.min(duration, Math.max(Math.min(MIN_SPAN, duration), view.span));
+  const start = Math.max(0, Math.min(duration - span, view.start));
+  return { start, span };
+};
+
+const formatTick = (time: number, step: number) => {
+  const decimals = step < 0.1 ? 2 : step < 1 ? 1 : 0;
+  const minutes = Math.floor(time / 60);
+  const seconds = (time - minutes * 60).toFixed(decimals);
+  return minutes > 0 ? `${minutes}:${seconds.padStart(decimals ? decimals + 3 : 2, '0')}` : `${seconds}s`;
+};
+
 const Timeline: React.FC<TimelineProps> = ({ 
   segments, 
   duration, 
   currentTime, 
-  trimStart, 
-  trimEnd, 
+  ranges,
+  plan,
+  outputView = false,
   onSeek,
-  onTrimChange
+  onRangeChange,
+  editMode = false,
+  onSegmentToggle,
+  onBoundaryMove,
+  onSplit,
+  envelope,
+  videoFile
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [dragMode, setDragMode] = useState<'start' | 'end' | 'seek' | null>(null);
+  const [dragMode, setDragMode] = useState<'start' | 'end' | 'seek' | 'boundary' | null>(null);
+  // Keep range whose handle is being dragged
+  const [dragRangeId, setDragRangeId] = useState<number | null>(null);
+  // Boundary being dragged (index of the segment to its right) and where it is now
+  const [boundaryDrag, setBoundaryDrag] = useState<{ index: number; time: number } | null>(null);
+  const [viewState, setView] = useState<TimelineView>({ start: 0, span: duration });
+  const [showFilmstrip, setShowFilmstrip] = useState(false);
+  // Segment context menu (long press or right click), in container coordinates
+  const [menu, setMenu] = useState<{ x: number; y: number; time: number; segment?: AudioSegment } | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  // Active pointers (id -> clientX) for pinch detection
+  const pointersRef = useRef(new Map<number, number>());
+  const pinchRef = useRef<{ distance: number; view: TimelineView; anchor: number } | null>(null);
+  const longPressRef = useRef<{ timer: number; x: number; y: number } | null>(null);
+  // Touch taps in edit mode flip their segment on release
+  const pendingTapRef = useRef<AudioSegment | null>(null);
+  // Screen reader announcement for keyboard changes
+  const [announcement, setAnnouncement] = useState('');
+  // Segment list for screen readers: one tab stop, arrows move between options
+  const segmentListRef = useRef<HTMLUListElement>(null);
+  const [focusedSegment, setFocusedSegment] = useState(0);
+  const segmentDescriptions = useMemo(() => segments.map(seg => describeSegment(seg, plan)), [segments, plan]);
+
+  // Everything below works in timeline time: source time, or output time in the edited view
+  const length = outputView ? getPlanDuration(plan) : duration;
+  const view = useMemo(() => clampView(viewState, length), [viewState, length]);
+  const playhead = outputView ? sourceToOutputTime(plan, currentTime) : currentTime;
+  // Same mapping as the preview's virtual time, inverted
+  const toSource = useCallback(
+    (time: number) => outputView ? outputToSourceTime(plan, time) : time,
+    [plan, outputView]
+  );
+
+  // New media, or switching views, always opens fully zoomed out
+  useEffect(() => {
+    setView({ start: 0, span: outputView ? getPlanDuration(plan) : duration });
+  }, [duration, outputView]);
+
+  // Keep the playhead in view while playing, paging forward like a DAW
+  useEffect(() => {
+    if (dragMode || view.span >= length) return;
+    if (playhead < view.start || playhead > view.start + view.span) {
+      setView(clampView({ ...view, start: playhead - view.span * 0.1 }, length));
+    }
+  }, [playhead]);
 
   // Helper to convert x to time
-  const getX = (time: number, width: number) => (time / duration) * width;
-  const getTime = (x: number, width: number) => (x / width) * duration;
+  const getX = (time: number, width: number) => ((time - view.start) / view.span) * width;
+  const getTime = (x: number, width: number) => view.start + (x / width) * view.span;
+
+  // Zoom by factor, keeping the time under `anchor` (0..1 across the canvas) in place
+  const zoomBy = (factor: number, anchor = 0.5) => {
+    setView(current => {
+      const prev = clampView(current, length);
+      const anchorTime = prev.start + prev.span * anchor;
+      const span = prev.span * factor;
+      return clampView({ start: anchorTime - span * anchor, span }, length);
+    });
+  };
+
+  const scrollTo = (start: number) => {
+    setView(prev => clampView({ ...clampView(prev, length), start }, length));
+  };
+
+  // Output pieces as blocks for the minimap; sped-up pauses shaded like padding
+  const outputBlocks = useMemo<AudioSegment[]>(() => plan.map(piece => ({
+    start: piece.outputStart,
+    end: piece.outputStart + getPieceDuration(piece),
+    isSilent: false,
+    isPadding: piece.speed !== 1
+  })), [plan]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -38,15 +184,16 @@ const Timeline: React.FC<TimelineProps> = ({
 
     const updateSize = () => {
       canvas.width = container.clientWidth;
-      canvas.height = 48; // Increased height for handles
+      canvas.height = 72; // Room for handles and the waveform
       draw();
     };
 
     const draw = () => {
       const width = canvas.width;
       const height = canvas.height;
-      const trackHeight = 32;
+      const trackHeight = 56;
       const topOffset = 8;
+      const viewEnd = view.start + view.span;
 
       // Clear
       ctx.clearRect(0, 0, width, height);
@@ -55,12 +202,26 @@ const Timeline: React.FC<TimelineProps> = ({
       ctx.fillStyle = '#27272a'; // zinc-800
       ctx.fillRect(0, topOffset, width, trackHeight);
 
-      if (duration === 0) return;
+      if (length === 0 || view.span === 0) return;
+
+      // With a waveform on top the segment blocks are only a tint
+      ctx.globalAlpha = envelope ? 0.35 : 1;
+
+      // Edited view: the output pieces laid end to end
+      if (outputView) plan.forEach(piece => {
+        const x = getX(piece.outputStart, width);
+        const w = getPieceDuration(piece) / view.span * width;
+        if (x > width || x + w < 0) return;
+        // Sped-up pauses keep the silence tint
+        ctx.fillStyle = piece.speed !== 1 ? '#ef444440' : '#06b6d4';
+        ctx.fillRect(x, topOffset, w, trackHeight);
+      });
 
       // Draw segments
-      segments.forEach(seg => {
+      if (!outputView) segments.forEach((seg, index) => {
+        if (seg.end < view.start || seg.start > viewEnd) return;
         const x = getX(seg.start, width);
-        const w = getX(seg.end - seg.start, width);
+        const w = (seg.end - seg.start) / view.span * width;
 
         if (seg.isSilent) {
             ctx.fillStyle = '#ef444440'; // Red tint
@@ -76,48 +237,157 @@ const Timeline: React.FC<TimelineProps> = ({
             }
             ctx.stroke();
         } else {
-             ctx.fillStyle = '#06b6d4'; // Cyan
+             // Keep margins get a darker shade than the detected speech
+             ctx.fillStyle = seg.isPadding ? '#0e7490' : '#06b6d4'; // Cyan-700 / Cyan
              ctx.fillRect(x, topOffset, w, trackHeight);
         }
+
+      });
+      ctx.globalAlpha = 1;
+
+      // Waveform, one column per pixel, mirrored around the track center
+      if (envelope) {
+        const center = topOffset + trackHeight / 2;
+        const toHeight = (amplitude: number) =>
+          Math.max(0, (amplitudeToDb(amplitude) - WAVEFORM_MIN_DB) / -WAVEFORM_MIN_DB) * (trackHeight / 2 - 1);
+        const secondsPerPx = view.span / width;
+        let segIndex = 0;
+        let pieceIndex = 0;
+
+        for (let px = 0; px < width; px++) {
+          const t0 = view.start + px * secondsPerPx;
+          if (t0 >= length) break;
+          let from = t0;
+          let to = t0 + secondsPerPx;
+          let silent: boolean;
+
+          if (outputView) {
+            // Pieces are in output order, so walk forward with the columns
+            while (pieceIndex < plan.length - 1 && plan[pieceIndex].outputStart + getPieceDuration(plan[pieceIndex]) <= t0) pieceIndex++;
+            const piece = plan[pieceIndex];
+            from = piece.start + (t0 - piece.outputStart) * piece.speed;
+            to = Math.min(piece.end, from + secondsPerPx * piece.speed);
+            silent = piece.speed !== 1;
+          } else {
+            // Segments are sorted, so walk forward with the columns
+            while (segIndex < segments.length - 1 && segments[segIndex].end <= t0) segIndex++;
+            silent = segments[segIndex]?.isSilent ?? false;
+          }
+
+          const { peak, rms } = readEnvelopeRange(envelope, from, to);
+          const peakHeight = toHeight(peak);
+          const rmsHeight = Math.min(peakHeight, toHeight(rms));
+
+          ctx.fillStyle = silent ? '#f8717166' : '#67e8f966'; // Red-400 / Cyan-300, faint peaks
+          ctx.fillRect(px, center - peakHeight, 1, peakHeight * 2 || 1);
+          ctx.fillStyle = silent ? '#f87171' : '#a5f3fc';
+          ctx.fillRect(px, center - rmsHeight, 1, rmsHeight * 2 || 1);
+        }
+      }
+
+      // Every join in the edited view is a cut in the export
+      if (outputView) plan.forEach((piece, index) => {
+        const x = getX(piece.outputStart, width);
+        if (index === 0 || x < 0 || x > width) return;
+        ctx.fillStyle = '#fafafa';
+        ctx.fillRect(x - 0.5, topOffset, 1, trackHeight);
       });
 
-      // Draw Trim Dimming (Dim areas outside trim range)
-      const trimStartX = getX(trimStart, width);
-      const trimEndX = getX(trimEnd, width);
+      if (!outputView) segments.forEach((seg, index) => {
+        if (seg.end < view.start || seg.start > viewEnd) return;
+        const x = getX(seg.start, width);
+        const w = (seg.end - seg.start) / view.span * width;
+
+        // Hand-edited segments get a violet cap
+        if (seg.isManual) {
+            ctx.fillStyle = '#a78bfa'; // Violet-400
+            ctx.fillRect(x, topOffset, w, 3);
+        }
 
+        // Boundaries between same-colored segments (splits) need a visible line
+        if (editMode && index > 0 && segments[index - 1].isSilent === seg.isSilent) {
+            ctx.fillStyle = '#18181b';
+            ctx.fillRect(x - 0.5, topOffset, 1, trackHeight);
+        }
+      });
+
+      // Ruler ticks along the top edge
+      const tickStep = TICK_STEPS.find(step => (step / view.span) * width >= MIN_TICK_PX)
+        ?? TICK_STEPS[TICK_STEPS.length - 1];
+      ctx.fillStyle = '#52525b'; // Zinc-600
+      ctx.font = '9px sans-serif';
+      for (let i = Math.ceil(view.start / tickStep); i * tickStep <= viewEnd; i++) {
+        const t = i * tickStep;
+        const x = getX(t, width);
+        ctx.fillRect(x, 0, 1, topOffset - 2);
+        ctx.fillText(formatTick(t, tickStep), x + 3, topOffset - 1);
+      }
+
+      // Editing overlays only make sense in source time
+      if (!outputView) {
+      // Boundary being dragged
+      if (boundaryDrag) {
+          const fromX = getX(segments[boundaryDrag.index].start, width);
+          const toX = getX(boundaryDrag.time, width);
+          ctx.fillStyle = 'rgba(167, 139, 250, 0.35)';
+          ctx.fillRect(Math.min(fromX, toX), topOffset, Math.abs(toX - fromX), trackHeight);
+          ctx.fillStyle = '#a78bfa';
+          ctx.fillRect(toX - 1, topOffset - 2, 2, trackHeight + 4);
+      }
+
+      // Draw Trim Dimming (Dim everything outside the keep ranges)
+      const sorted = sortBySource(ranges);
       ctx.fillStyle = 'rgba(9, 9, 11, 0.75)'; // Darker dim
-      // Left dim
-      ctx.fillRect(0, topOffset, trimStartX, trackHeight);
-      // Right dim
-      ctx.fillRect(trimEndX, topOffset, width - trimEndX, trackHeight);
+      let dimFrom = 0;
+      sorted.forEach(range => {
+        const startX = getX(range.start, width);
+        ctx.fillRect(getX(dimFrom, width), topOffset, startX - getX(dimFrom, width), trackHeight);
+        dimFrom = range.end;
+      });
+      ctx.fillRect(getX(dimFrom, width), topOffset, getX(duration, width) - getX(dimFrom, width), trackHeight);
 
       // Trim Handles
       const handleWidth = 10;
-      
-      // Start Handle
-      ctx.fillStyle = '#fbbf24'; // Amber-400
-      ctx.beginPath();
-      ctx.roundRect(trimStartX - handleWidth, topOffset - 4, handleWidth, trackHeight + 8, [4, 0, 0, 4]);
-      ctx.fill();
-      // Icon lines
-      ctx.fillStyle = '#78350f';
-      ctx.fillRect(trimStartX - 6, topOffset + 10, 2, 12);
-
-      // End Handle
-      ctx.fillStyle = '#fbbf24';
-      ctx.beginPath();
-      ctx.roundRect(trimEndX, topOffset - 4, handleWidth, trackHeight + 8, [0, 4, 4, 0]);
-      ctx.fill();
-      ctx.fillStyle = '#78350f';
-      ctx.fillRect(trimEndX + 4, topOffset + 10, 2, 12);
-
-      // Trim Lines
-      ctx.fillStyle = '#fbbf24';
-      ctx.fillRect(trimStartX, topOffset, 2, trackHeight);
-      ctx.fillRect(trimEndX - 2, topOffset, 2, trackHeight);
+      ranges.forEach((range, index) => {
+        const trimStartX = getX(range.start, width);
+        const trimEndX = getX(range.end, width);
+        if (trimEndX < -handleWidth || trimStartX > width + handleWidth) return;
+
+        // Start Handle
+        ctx.fillStyle = '#fbbf24'; // Amber-400
+        ctx.beginPath();
+        ctx.roundRect(trimStartX - handleWidth, topOffset - 4, handleWidth, trackHeight + 8, [4, 0, 0, 4]);
+        ctx.fill();
+        // Icon lines
+        ctx.fillStyle = '#78350f';
+        ctx.fillRect(trimStartX - 6, topOffset + trackHeight / 2 - 6, 2, 12);
+
+        // End Handle
+        ctx.fillStyle = '#fbbf24';
+        ctx.beginPath();
+        ctx.roundRect(trimEndX, topOffset - 4, handleWidth, trackHeight + 8, [0, 4, 4, 0]);
+        ctx.fill();
+        ctx.fillStyle = '#78350f';
+        ctx.fillRect(trimEndX + 4, topOffset + trackHeight / 2 - 6, 2, 12);
+
+        // Trim Lines
+        ctx.fillStyle = '#fbbf24';
+        ctx.fillRect(trimStartX, topOffset, 2, trackHeight);
+        ctx.fillRect(trimEndX - 2, topOffset, 2, trackHeight);
+
+        // Output order badge
+        if (ranges.length > 1) {
+          ctx.fillStyle = 'rgba(9, 9, 11, 0.8)';
+          ctx.fillRect(trimStartX + 2, topOffset, 14, 12);
+          ctx.fillStyle = '#fbbf24';
+          ctx.font = 'bold 9px sans-serif';
+          ctx.fillText(`${index + 1}`, trimStartX + 5, topOffset + 9);
+        }
+      });
+      }
 
       // Playhead
-      const playheadX = getX(currentTime, width);
+      const playheadX = getX(playhead, width);
       ctx.fillStyle = '#fff';
       ctx.shadowColor = 'black';
       ctx.shadowBlur = 4;
@@ -127,7 +397,7 @@ const Timeline: React.FC<TimelineProps> = ({
       // Time label
       ctx.fillStyle = '#a1a1aa';
       ctx.font = '10px sans-serif';
-      ctx.fillText(`${currentTime.toFixed(1)}s`, playheadX + 5, height - 2);
+      ctx.fillText(`${playhead.toFixed(1)}s`, playheadX + 5, height - 2);
     };
 
     // Initial draw
@@ -138,93 +408,542 @@ const Timeline: React.FC<TimelineProps> = ({
     observer.observe(container);
 
     return () => observer.disconnect();
-  }, [segments, duration, currentTime, trimStart, trimEnd]);
+  }, [segments, duration, currentTime, ranges, editMode, boundaryDrag, envelope, view, plan, outputView]);
+
+  // Wheel zooms around the cursor, shift+wheel or horizontal wheel scrolls.
+  // Attached natively because React's wheel listener is passive.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      if (length === 0) return;
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const horizontal = e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY);
+
+      if (horizontal) {
+        const delta = e.shiftKey && e.deltaX === 0 ? e.deltaY : e.deltaX;
+        setView(prev => {
+          const current = clampView(prev, length);
+          return clampView({ ...current, start: current.start + (delta / rect.width) * current.span }, length);
+        });
+      } else {
+        zoomBy(Math.exp(e.deltaY * 0.002), (e.clientX - rect.left) / rect.width);
+      }
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [length]);
+
+  // Index of the segment whose start boundary is under x (never the first)
+  const findBoundary = (x: number, width: number, hitArea = 6) => {
+      for (let i = 1; i < segments.length; i++) {
+          if (Math.abs(getX(segments[i].start, width) - x) < hitArea) return i;
+      }
+      return -1;
+  };
+
+  // Trim handle under x. Handles sit outside their range, so when two ranges
+  // touch the pointer's side of the line decides which one is grabbed.
+  const findHandle = (x: number, width: number, hitArea: number) => {
+      let best: { id: number; edge: 'start' | 'end' } | null = null;
+      let bestDistance = hitArea;
+      for (const range of ranges) {
+          const startDistance = Math.abs(x - (getX(range.start, width) - 5));
+          const endDistance = Math.abs(x - (getX(range.end, width) + 5));
+          if (startDistance < bestDistance) {
+              best = { id: range.id, edge: 'start' };
+              bestDistance = startDistance;
+          }
+          if (endDistance < bestDistance) {
+              best = { id: range.id, edge: 'end' };
+              bestDistance = endDistance;
+          }
+      }
+      return best;
+  };
+
+  const pointerPositions = () => {
+      const positions: number[] = [];
+      pointersRef.current.forEach(x => positions.push(x));
+      return positions;
+  };
+
+  const segmentAt = (time: number) => segments.find(s => time >= s.start && time < s.end);
+
+  const cancelLongPress = () => {
+      if (longPressRef.current) window.clearTimeout(longPressRef.current.timer);
+      longPressRef.current = null;
+  };
+
+  const openMenu = (clientX: number, clientY: number) => {
+      if (!canvasRef.current || !containerRef.current) return;
+      const rect = canvasRef.current.getBoundingClientRect();
+      const containerRect = containerRef.current.getBoundingClientRect();
+      const time = getTime(clientX - rect.left, rect.width);
+      setMenu({
+          x: clientX - containerRect.left,
+          y: clientY - containerRect.top,
+          time,
+          segment: outputView ? undefined : segmentAt(time)
+      });
+  };
+
+  const endDrag = (commit: boolean) => {
+    if (commit && dragMode === 'boundary' && boundaryDrag) {
+        onBoundaryMove?.(segments[boundaryDrag.index - 1], segments[boundaryDrag.index], boundaryDrag.time);
+    }
+    setDragMode(null);
+    setDragRangeId(null);
+    setBoundaryDrag(null);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!canvasRef.current || length === 0) return;
+    // Right click opens the menu through onContextMenu
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+
+    canvasRef.current.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, e.clientX);
+    setMenu(null);
 
-  const handleMouseDown = (e: React.MouseEvent) => {
-    if (!canvasRef.current || duration === 0) return;
-    
     const rect = canvasRef.current.getBoundingClientRect();
+
+    // Second finger down: drop whatever the first one started and pinch instead
+    if (pointersRef.current.size === 2) {
+        cancelLongPress();
+        pendingTapRef.current = null;
+        endDrag(false);
+        const [a, b] = pointerPositions();
+        pinchRef.current = {
+            distance: Math.max(1, Math.abs(a - b)),
+            view,
+            anchor: ((a + b) / 2 - rect.left) / rect.width
+        };
+        return;
+    }
+    if (pointersRef.current.size > 2) return;
+
     const x = e.clientX - rect.left;
     const width = rect.width;
+    const scale = HIT_SCALE[e.pointerType] ?? 1;
     
-    const trimStartX = getX(trimStart, width);
-    const trimEndX = getX(trimEnd, width);
-    const handleWidth = 15; // Hit area
+    // The edited view only seeks
+    const handle = outputView ? null : findHandle(x, width, 15 * scale);
 
     // Check Handles
-    if (Math.abs(x - trimStartX) < handleWidth) {
-        setDragMode('start');
-    } else if (Math.abs(x - trimEndX) < handleWidth) {
-        setDragMode('end');
+    if (handle) {
+        setDragMode(handle.edge);
+        setDragRangeId(handle.id);
+        return;
+    }
+
+    if (editMode && !outputView) {
+        const boundary = findBoundary(x, width, 6 * scale);
+        if (boundary > 0) {
+            setDragMode('boundary');
+            setBoundaryDrag({ index: boundary, time: segments[boundary].start });
+            return;
+        }
+        const segment = segmentAt(getTime(x, width));
+        // Touch waits for the finger to lift, so a long press doesn't also flip the segment
+        if (e.pointerType === 'mouse') {
+            if (segment) onSegmentToggle?.(segment);
+        } else {
+            pendingTapRef.current = segment ?? null;
+        }
     } else {
         setDragMode('seek');
         const newTime = getTime(x, width);
-        onSeek(Math.max(0, Math.min(newTime, duration)));
+        onSeek(toSource(Math.max(0, Math.min(newTime, length))));
+    }
+
+    if (e.pointerType !== 'mouse') {
+        const { clientX, clientY } = e;
+        longPressRef.current = {
+            x: clientX,
+            y: clientY,
+            timer: window.setTimeout(() => {
+                longPressRef.current = null;
+                pendingTapRef.current = null;
+                endDrag(false);
+                openMenu(clientX, clientY);
+            }, LONG_PRESS_MS)
+        };
     }
   };
 
-  const handleMouseMove = (e: MouseEvent) => {
-    if (!dragMode || !canvasRef.current) return;
-    
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!canvasRef.current) return;
     const rect = canvasRef.current.getBoundingClientRect();
+
+    // Hovering mouse: just update the cursor
+    if (!pointersRef.current.has(e.pointerId)) {
+        canvasRef.current.style.cursor = getCursor(e.clientX - rect.left, rect.width);
+        return;
+    }
+    pointersRef.current.set(e.pointerId, e.clientX);
+
+    const pinch = pinchRef.current;
+    if (pinch && pointersRef.current.size === 2) {
+        // Keep the time that was under the fingers' midpoint under it while zooming
+        const [a, b] = pointerPositions();
+        const span = pinch.view.span * (pinch.distance / Math.max(1, Math.abs(a - b)));
+        const anchorTime = pinch.view.start + pinch.view.span * pinch.anchor;
+        const anchor = ((a + b) / 2 - rect.left) / rect.width;
+        setView(clampView({ start: anchorTime - span * anchor, span }, length));
+        return;
+    }
+
+    const press = longPressRef.current;
+    if (press && Math.hypot(e.clientX - press.x, e.clientY - press.y) > LONG_PRESS_SLOP) {
+        cancelLongPress();
+        pendingTapRef.current = null;
+    }
+    if (!dragMode) return;
+    
     const x = Math.max(0, Math.min(e.clientX - rect.left, rect.width));
-    const newTime = getTime(x, rect.width);
-
-    if (dragMode === 'start') {
-        const maxStart = trimEnd - 0.5; // Min 0.5s duration
-        onTrimChange(Math.min(Math.max(0, newTime), maxStart), trimEnd);
-    } else if (dragMode === 'end') {
-        const minEnd = trimStart + 0.5;
-        onTrimChange(trimStart, Math.max(Math.min(duration, newTime), minEnd));
+    const newTime = Math.max(0, Math.min(length, getTime(x, rect.width)));
+
+    const range = ranges.find(r => r.id === dragRangeId);
+    if (dragMode === 'start' && range) {
+        // Min length and neighbours are enforced by the owner
+        onRangeChange(range.id, newTime, range.end);
+    } else if (dragMode === 'end' && range) {
+        onRangeChange(range.id, range.start, newTime);
     } else if (dragMode === 'seek') {
-        onSeek(newTime);
+        onSeek(toSource(newTime));
+    } else if (dragMode === 'boundary' && boundaryDrag) {
+        // Stay inside the two neighbouring segments
+        const left = segments[boundaryDrag.index - 1];
+        const right = segments[boundaryDrag.index];
+        setBoundaryDrag({ ...boundaryDrag, time: Math.max(left.start, Math.min(right.end, newTime)) });
     }
   };
 
-  const handleMouseUp = () => {
-    setDragMode(null);
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const cancelled = e.type === 'pointercancel';
+    pointersRef.current.delete(e.pointerId);
+    cancelLongPress();
+
+    // The finger left over after a pinch doesn't start anything
+    if (pinchRef.current) {
+        if (pointersRef.current.size === 0) pinchRef.current = null;
+        return;
+    }
+
+    if (pendingTapRef.current && !cancelled) onSegmentToggle?.(pendingTapRef.current);
+    pendingTapRef.current = null;
+    endDrag(!cancelled);
   };
 
+  // Close the context menu on any outside press or Escape
   useEffect(() => {
-    if (dragMode) {
-        window.addEventListener('mousemove', handleMouseMove);
-        window.addEventListener('mouseup', handleMouseUp);
-    }
+    if (!menu) return;
+    const close = (e: Event) => {
+      if (e instanceof KeyboardEvent && e.key !== 'Escape') return;
+      if (e.target instanceof Node && menuRef.current?.contains(e.target)) return;
+      setMenu(null);
+    };
+    window.addEventListener('pointerdown', close);
+    window.addEventListener('keydown', close);
     return () => {
-        window.removeEventListener('mousemove', handleMouseMove);
-        window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('pointerdown', close);
+      window.removeEventListener('keydown', close);
     };
-  }, [dragMode, trimStart, trimEnd, duration]); // Deps important for closures
+  }, [menu]);
+
+  useEffect(() => cancelLongPress, []);
+
+  const runMenuAction = (action: () => void) => {
+    action();
+    setMenu(null);
+  };
+
+  // Arrow keys nudge by a tenth of a second, Shift for a whole second,
+  // Page keys by five; returns null for keys a slider doesn't handle
+  const sliderStep = (e: React.KeyboardEvent, value: number, min: number, max: number) => {
+      const step = e.shiftKey ? 1 : 0.1;
+      switch (e.key) {
+          case 'ArrowLeft':
+          case 'ArrowDown': return Math.max(min, value - step);
+          case 'ArrowRight':
+          case 'ArrowUp': return Math.min(max, value + step);
+          case 'PageDown': return Math.max(min, value - 5);
+          case 'PageUp': return Math.min(max, value + 5);
+          case 'Home': return min;
+          case 'End': return max;
+          default: return null;
+      }
+  };
+
+  const describeTime = (sourceTime: number) => {
+      const segment = segmentAt(sourceTime);
+      return segment ? describeSegment(segment, plan) : 'outside the media';
+  };
+
+  const handlePlayheadKey = (e: React.KeyboardEvent) => {
+      const next = sliderStep(e, playhead, 0, length);
+      if (next === null) return;
+      // Keep the player's own shortcuts from also handling the key
+      e.preventDefault();
+      e.stopPropagation();
+      onSeek(toSource(next));
+      setAnnouncement(`${formatSeconds(next)}, ${describeTime(toSource(next))}`);
+  };
+
+  const handleTrimKey = (e: React.KeyboardEvent, range: KeepRange, index: number, edge: 'start' | 'end') => {
+      const value = edge === 'start' ? range.start : range.end;
+      const next = sliderStep(e, value, 0, duration);
+      if (next === null) return;
+      e.preventDefault();
+      e.stopPropagation();
+      if (edge === 'start') onRangeChange(range.id, next, range.end);
+      else onRangeChange(range.id, range.start, next);
+      setAnnouncement(`Range ${index + 1} ${edge === 'start' ? 'in' : 'out'} point ${formatSeconds(next)}`);
+  };
+
+  const activeSegment = Math.min(focusedSegment, segments.length - 1);
+
+  const handleSegmentListKey = (e: React.KeyboardEvent) => {
+      const seg = segments[activeSegment];
+      if (!seg) return;
+      let next: number | null = null;
+      if (e.key === 'ArrowDown' || e.key === 'ArrowRight') next = Math.min(segments.length - 1, activeSegment + 1);
+      else if (e.key === 'ArrowUp' || e.key === 'ArrowLeft') next = Math.max(0, activeSegment - 1);
+      else if (e.key === 'Home') next = 0;
+      else if (e.key === 'End') next = segments.length - 1;
+      else if (e.key === 'Enter') {
+          onSeek(seg.start);
+          setAnnouncement(`Playhead at ${formatSeconds(seg.start)}`);
+      } else if (e.key === ' ' && onSegmentToggle) {
+          onSegmentToggle(seg);
+          setAnnouncement(`Segment ${activeSegment + 1} ${seg.isSilent ? 'kept' : 'cut'}`);
+      } else {
+          return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+      if (next !== null) {
+          setFocusedSegment(next);
+          (segmentListRef.current?.children[next] as HTMLElement | undefined)?.focus();
+      }
+  };
+
+  // Percent position of a timeline time for the overlaid ARIA sliders
+  const sliderLeft = (time: number) =>
+      `${Math.max(0, Math.min(100, view.span > 0 ? ((time - view.start) / view.span) * 100 : 0))}%`;
 
   // Cursor style
-  const getCursor = (e: React.MouseEvent) => {
-      if (!canvasRef.current) return 'default';
-      const rect = canvasRef.current.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const width = rect.width;
-      const trimStartX = getX(trimStart, width);
-      const trimEndX = getX(trimEnd, width);
-      const handleWidth = 10;
-      
-      if (Math.abs(x - trimStartX) < handleWidth || Math.abs(x - trimEndX) < handleWidth) {
+  const getCursor = (x: number, width: number) => {
+      if (outputView) return 'crosshair';
+      if (findHandle(x, width, 10)) {
           return 'ew-resize';
       }
+      if (editMode) {
+          return findBoundary(x, width) > 0 ? 'col-resize' : 'pointer';
+      }
       return 'crosshair';
   };
 
+  const zoomed = view.span < length;
+
   return (
-    <div className="w-full select-none" ref={containerRef}>
+    <div className="relative w-full select-none" ref={containerRef}>
+      {videoFile && showFilmstrip && (
+        <FilmstripLane
+          file={videoFile}
+          duration={length}
+          viewStart={view.start}
+          viewSpan={view.span}
+          toSource={outputView ? toSource : undefined}
+        />
+      )}
+      <div className="relative">
       <canvas 
         ref={canvasRef} 
-        className="w-full h-12 rounded cursor-pointer touch-none"
-        onMouseDown={handleMouseDown}
-        onMouseMove={(e) => {
-             if(canvasRef.current) canvasRef.current.style.cursor = getCursor(e);
+        aria-hidden="true"
+        className="w-full h-[72px] rounded cursor-pointer touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onContextMenu={(e) => {
+            e.preventDefault();
+            // Touch already opened it through the long press
+            if (!menu) openMenu(e.clientX, e.clientY);
         }}
       />
-      <div className="flex justify-between text-xs text-zinc-500 mt-1 px-1">
-        <span>00:00</span>
-        <span>Original Duration: {duration.toFixed(1)}s</span>
+      {/* Keyboard and screen reader stand-ins for what the canvas draws */}
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label={outputView ? 'Playhead (edited time)' : 'Playhead'}
+        aria-valuemin={0}
+        aria-valuemax={Math.round(length * 10) / 10}
+        aria-valuenow={Math.round(playhead * 10) / 10}
+        aria-valuetext={`${formatSeconds(playhead)}, ${describeTime(currentTime)}`}
+        onKeyDown={handlePlayheadKey}
+        className="absolute top-1 h-[64px] w-3 -ml-1.5 rounded pointer-events-none focus:outline-none focus-visible:ring-2 focus-visible:ring-white"
+        style={{ left: sliderLeft(playhead) }}
+      />
+      {!outputView && ranges.map((range, index) => (
+        <React.Fragment key={range.id}>
+          <div
+            role="slider"
+            tabIndex={0}
+            aria-label={`Range ${index + 1} in point`}
+            aria-valuemin={0}
+            aria-valuemax={Math.round(range.end * 10) / 10}
+            aria-valuenow={Math.round(range.start * 10) / 10}
+            aria-valuetext={formatSeconds(range.start)}
+            onKeyDown={(e) => handleTrimKey(e, range, index, 'start')}
+            className="absolute top-1 h-[64px] w-3 -ml-3 rounded pointer-events-none focus:outline-none focus-visible:ring-2 focus-visible:ring-amber-300"
+            style={{ left: sliderLeft(range.start) }}
+          />
+          <div
+            role="slider"
+            tabIndex={0}
+            aria-label={`Range ${index + 1} out point`}
+            aria-valuemin={Math.round(range.start * 10) / 10}
+            aria-valuemax={Math.round(duration * 10) / 10}
+            aria-valuenow={Math.round(range.end * 10) / 10}
+            aria-valuetext={formatSeconds(range.end)}
+            onKeyDown={(e) => handleTrimKey(e, range, index, 'end')}
+            className="absolute top-1 h-[64px] w-3 rounded pointer-events-none focus:outline-none focus-visible:ring-2 focus-visible:ring-amber-300"
+            style={{ left: sliderLeft(range.end) }}
+          />
+        </React.Fragment>
+      ))}
+      </div>
+      <div aria-live="polite" className="sr-only">{announcement}</div>
+      {!outputView && (
+        <ul
+          ref={segmentListRef}
+          role="listbox"
+          className="sr-only"
+          aria-label={`Segments. Enter moves the playhead there${onSegmentToggle ? ', Space keeps or cuts it' : ''}`}
+          onKeyDown={handleSegmentListKey}
+        >
+          {segments.map((seg, index) => (
+            <li
+              key={index}
+              role="option"
+              aria-selected={index === activeSegment}
+              tabIndex={index === activeSegment ? 0 : -1}
+              onFocus={() => setFocusedSegment(index)}
+              onClick={() => onSeek(seg.start)}
+            >
+              {`Segment ${index + 1} of ${segments.length}: ${segmentDescriptions[index]}`}
+            </li>
+          ))}
+        </ul>
+      )}
+      {menu && (
+        <div
+          ref={menuRef}
+          className="absolute z-20 min-w-[180px] py-1 bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl text-sm"
+          style={{ left: Math.min(menu.x, (containerRef.current?.clientWidth ?? 0) - 190), top: menu.y + 8 }}
+        >
+          {menu.segment && (
+            <>
+              <div className="px-3 py-1.5 text-[10px] uppercase tracking-wider text-zinc-500">
+                {menu.segment.isSilent ? 'Silence' : 'Speech'} {menu.segment.start.toFixed(1)}s – {menu.segment.end.toFixed(1)}s
+              </div>
+              <button
+                onClick={() => runMenuAction(() => onSegmentToggle?.(menu.segment!))}
+                className="w-full text-left px-3 py-2 text-zinc-300 hover:bg-zinc-800"
+              >
+                {menu.segment.isSilent ? 'Keep this segment' : 'Cut this segment'}
+              </button>
+            </>
+          )}
+          {!outputView && onSplit && (
+            <button
+              onClick={() => runMenuAction(() => onSplit(menu.time))}
+              className="w-full text-left px-3 py-2 text-zinc-300 hover:bg-zinc-800"
+            >
+              Split here
+            </button>
+          )}
+          <button
+            onClick={() => runMenuAction(() => onSeek(toSource(menu.time)))}
+            className="w-full text-left px-3 py-2 text-zinc-300 hover:bg-zinc-800"
+          >
+            Move playhead here
+          </button>
+          {menu.segment && (
+            <button
+              onClick={() => runMenuAction(() => {
+                const segment = menu.segment!;
+                const pad = (segment.end - segment.start) * 0.1;
+                setView(clampView({ start: segment.start - pad, span: segment.end - segment.start + pad * 2 }, length));
+              })}
+              className="w-full text-left px-3 py-2 text-zinc-300 hover:bg-zinc-800"
+            >
+              Zoom to segment
+            </button>
+          )}
+        </div>
+      )}
+      {zoomed && (
+        <TimelineMinimap
+          segments={outputView ? outputBlocks : segments}
+          duration={length}
+          currentTime={playhead}
+          viewStart={view.start}
+          viewSpan={view.span}
+          onScroll={scrollTo}
+        />
+      )}
+      <div className="flex items-center justify-between text-xs text-zinc-500 mt-1 px-1">
+        <span>
+          {zoomed
+            ? `${view.start.toFixed(1)}s – ${(view.start + view.span).toFixed(1)}s`
+            : '00:00'}
+        </span>
+        <div className="flex items-center gap-1">
+          {videoFile && (
+            <button
+              onClick={() => setShowFilmstrip(!showFilmstrip)}
+              className={`p-1 rounded transition-colors ${
+                showFilmstrip ? 'text-cyan-400 bg-cyan-500/10' : 'hover:bg-zinc-800 hover:text-zinc-300'
+              }`}
+              title={showFilmstrip ? 'Hide thumbnails' : 'Show thumbnails'}
+            >
+              <Film className="w-3.5 h-3.5" />
+            </button>
+          )}
+          <button
+            onClick={() => zoomBy(0.5)}
+            disabled={length === 0 || view.span <= Math.min(MIN_SPAN, length)}
+            className="p-1 rounded hover:bg-zinc-800 hover:text-zinc-300 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+            title="Zoom in (mouse wheel)"
+          >
+            <ZoomIn className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => zoomBy(2)}
+            disabled={!zoomed}
+            className="p-1 rounded hover:bg-zinc-800 hover:text-zinc-300 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+            title="Zoom out"
+          >
+            <ZoomOut className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => setView({ start: 0, span: length })}
+            disabled={!zoomed}
+            className="p-1 rounded hover:bg-zinc-800 hover:text-zinc-300 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+            title="Fit whole file"
+          >
+            <Maximize2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        <span>
+          {outputView ? `Edited Duration: ${length.toFixed(1)}s` : `Original Duration: ${duration.toFixed(1)}s`}
+        </span>
       </div>
     </div>
   );
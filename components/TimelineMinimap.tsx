@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioSegment } from '../types';
+
+interface TimelineMinimapProps {
+  segments: AudioSegment[];
+  duration: number;
+  currentTime: number;
+  viewStart: number;
+  viewSpan: number;
+  onScroll: (viewStart: number) => void;
+}
+
+// Whole-file overview under the zoomed timeline; drag the window to scroll
+const TimelineMinimap: React.FC<TimelineMinimapProps> = ({
+  segments,
+  duration,
+  currentTime,
+  viewStart,
+  viewSpan,
+  onScroll
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Where inside the view window the drag grabbed it (seconds from viewStart)
+  const [grabOffset, setGrabOffset] = useState<number | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!canvas || !container) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const draw = () => {
+      canvas.width = container.clientWidth;
+      canvas.height = 14;
+      const width = canvas.width;
+      const height = canvas.height;
+
+      ctx.clearRect(0, 0, width, height);
+      ctx.fillStyle = '#27272a';
+      ctx.fillRect(0, 0, width, height);
+      if (duration === 0) return;
+
+      const getX = (time: number) => (time / duration) * width;
+
+      segments.forEach(seg => {
+        if (seg.isSilent) return;
+        ctx.fillStyle = seg.isPadding ? '#0e7490' : '#06b6d4';
+        ctx.fillRect(getX(seg.start), 3, Math.max(1, getX(seg.end - seg.start)), height - 6);
+      });
+
+      // Playhead
+      ctx.fillStyle = '#fff';
+      ctx.fillRect(getX(currentTime) - 0.5, 0, 1, height);
+
+      // Visible window
+      const x = getX(viewStart);
+      const w = Math.max(4, getX(viewSpan));
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.12)';
+      ctx.fillRect(x, 0, w, height);
+      ctx.strokeStyle = '#e4e4e7';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(x + 0.5, 0.5, w - 1, height - 1);
+    };
+
+    draw();
+    const observer = new ResizeObserver(draw);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [segments, duration, currentTime, viewStart, viewSpan]);
+
+  const timeAt = (clientX: number) => {
+    if (!canvasRef.current) return 0;
+    const rect = canvasRef.current.getBoundingClientRect();
+    return ((clientX - rect.left) / rect.width) * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (duration === 0 || !canvasRef.current) return;
+    canvasRef.current.setPointerCapture(e.pointerId);
+    const time = timeAt(e.clientX);
+    if (time >= viewStart && time <= viewStart + viewSpan) {
+      setGrabOffset(time - viewStart);
+    } else {
+      // Clicking outside the window centers it there
+      setGrabOffset(viewSpan / 2);
+      onScroll(time - viewSpan / 2);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (grabOffset !== null) onScroll(timeAt(e.clientX) - grabOffset);
+  };
+
+  return (
+    <div className="w-full mt-2" ref={containerRef}>
+      <canvas
+        ref={canvasRef}
+        className="w-full h-3.5 rounded-sm cursor-grab active:cursor-grabbing touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setGrabOffset(null)}
+        onPointerCancel={() => setGrabOffset(null)}
+      />
+    </div>
+  );
+};
+
+export default TimelineMinimap;
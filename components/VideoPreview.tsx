@@ -1,26 +1,55 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { AudioSegment, ExportConfig } from '../types';
+import { AudioSegment, ExportConfig, KeepRange, RmsEnvelope } from '../types';
 import Timeline from './Timeline';
-import { Play, Pause, Volume2, VolumeX, Scissors, Music, Music2 } from 'lucide-react';
+import { EditPiece, findNextPiece, findPieceAt, getPlanDuration, sourceToOutputTime } from '../utils/editTimeline';
+import { addRangeAt, findRangeIndex, moveRange, removeRange, resizeRange, snapToRanges } from '../utils/keepRanges';
+import { findAction, KeyBindings, keyFromEvent, loadBindings, saveBindings, ShortcutAction, SHUTTLE_SPEEDS } from '../utils/shortcuts';
+import ShortcutsOverlay from './ShortcutsOverlay';
+import { findCueAt, SubtitleCue } from '../utils/subtitles';
+import { Play, Pause, Volume2, VolumeX, Scissors, Music, Music2, MousePointerClick, SplitSquareHorizontal, RotateCcw, Plus, ChevronUp, ChevronDown, Trash2, Keyboard } from 'lucide-react';
+
+// Frame rate isn't known in the browser; step at a common 30 fps
+const FRAME_SECONDS = 1 / 30;
+// playbackRate range Chrome accepts; anything outside throws NotSupportedError
+const MIN_PLAYBACK_RATE = 0.0625;
+const MAX_PLAYBACK_RATE = 16;
 
 interface VideoPreviewProps {
   file: File | null;
   segments: AudioSegment[];
+  plan: EditPiece[];
   autoSkip: boolean;
   onAutoSkipToggle: (enabled: boolean) => void;
   exportConfig: ExportConfig;
   onUpdateConfig: (config: Partial<ExportConfig>) => void;
+  onRangesChange: (ranges: KeepRange[], label: string) => void;
   duration: number;
+  envelope?: RmsEnvelope | null;
+  subtitles?: SubtitleCue[]; // source time
+  manualEditCount: number;
+  onSegmentToggle: (segment: AudioSegment) => void;
+  onBoundaryMove: (left: AudioSegment, right: AudioSegment, time: number) => void;
+  onSplit: (time: number) => void;
+  onClearEdits: () => void;
 }
 
 const VideoPreview: React.FC<VideoPreviewProps> = ({ 
     file, 
     segments, 
+    plan,
     autoSkip, 
     onAutoSkipToggle,
     exportConfig,
     onUpdateConfig,
-    duration
+    onRangesChange,
+    duration,
+    envelope,
+    subtitles,
+    manualEditCount,
+    onSegmentToggle,
+    onBoundaryMove,
+    onSplit,
+    onClearEdits
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const bgAudioRef = useRef<HTMLAudioElement>(null);
@@ -31,6 +60,16 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
   const [src, setSrc] = useState<string>('');
   const [bgMusicSrc, setBgMusicSrc] = useState<string>('');
   const [isAudioOnly, setIsAudioOnly] = useState(false);
+  const [editMode, setEditMode] = useState(false);
+  // Timeline and clock in output time instead of source time
+  const [outputView, setOutputView] = useState(false);
+  // Keep range (list index) the playhead is in; ranges play in list order
+  const rangeIndexRef = useRef(0);
+  const ranges = exportConfig.ranges;
+  const [bindings, setBindings] = useState<KeyBindings>(loadBindings);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  // JKL shuttle: positive plays forward that many times faster, negative scrubs backwards, 0 is off
+  const [shuttleSpeed, setShuttleSpeed] = useState(0);
 
   // Handle Video Source
   useEffect(() => {
@@ -55,15 +94,18 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
 
   const togglePlay = () => {
     if (videoRef.current) {
+      setShuttleSpeed(0);
       if (isPlaying) {
         videoRef.current.pause();
         bgAudioRef.current?.pause();
       } else {
-        // Enforce trim boundaries on start
-        if (videoRef.current.currentTime < exportConfig.trimStart) {
-            videoRef.current.currentTime = exportConfig.trimStart;
-        } else if (videoRef.current.currentTime > exportConfig.trimEnd) {
-             videoRef.current.currentTime = exportConfig.trimStart;
+        // Outside every keep range (or at the very end) start over from the first one
+        const index = findRangeIndex(ranges, videoRef.current.currentTime);
+        if (index === -1 && ranges.length > 0) {
+            videoRef.current.currentTime = ranges[0].start;
+            rangeIndexRef.current = 0;
+        } else if (index !== -1) {
+            rangeIndexRef.current = index;
         }
         videoRef.current.play();
         bgAudioRef.current?.play();
@@ -73,27 +115,10 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
   };
 
   const calculateVirtualTime = (realTime: number): number => {
-    // Calculates how much "active" time has passed up to realTime
-    // This maps the skipped video time to the continuous background music time
-    let virtual = 0;
-    
-    // Start counting from trimStart (bg music starts at trimStart)
-    if (realTime < exportConfig.trimStart) return 0;
-
-    for (const seg of segments) {
-        if (seg.end < exportConfig.trimStart) continue; // Before trim
-        if (seg.start > realTime) break; // Future segment
-        if (seg.start > exportConfig.trimEnd) break; // After trim
-
-        // Determine effective segment part within current playback pos
-        const effectiveStart = Math.max(seg.start, exportConfig.trimStart);
-        const effectiveEnd = Math.min(seg.end, realTime, exportConfig.trimEnd);
-
-        if (!seg.isSilent && effectiveEnd > effectiveStart) {
-            virtual += (effectiveEnd - effectiveStart);
-        }
-    }
-    return virtual;
+    // Calculates how much output time has passed up to realTime
+    // This maps the skipped video time to the continuous background music time,
+    // and accounts for shortened / sped-up pauses the same way the export does
+    return sourceToOutputTime(plan, realTime);
   };
 
   const handleTimeUpdate = () => {
@@ -101,31 +126,53 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
     
     let time = videoRef.current.currentTime;
 
-    // 1. Enforce Trim Range
-    if (time < exportConfig.trimStart) {
-        time = exportConfig.trimStart;
-        videoRef.current.currentTime = time;
-    }
-    if (time >= exportConfig.trimEnd) {
-        videoRef.current.pause();
-        bgAudioRef.current?.pause();
-        setIsPlaying(false);
-        time = exportConfig.trimEnd;
+    // 1. Enforce Keep Ranges - play each one in list order, then stop
+    let range = ranges[rangeIndexRef.current];
+    if (range && time >= range.end) {
+        const next = ranges[rangeIndexRef.current + 1];
+        if (next) {
+            rangeIndexRef.current++;
+            range = next;
+            time = next.start;
+            videoRef.current.currentTime = time;
+        } else {
+            videoRef.current.pause();
+            bgAudioRef.current?.pause();
+            setIsPlaying(false);
+            setShuttleSpeed(0);
+            time = range.end;
+        }
+    } else if (!range || time < range.start) {
+        // Ranges were edited under the playhead: pick up from the closest one
+        const snapped = snapToRanges(ranges, time);
+        if (snapped.index !== -1) {
+            rangeIndexRef.current = snapped.index;
+            range = ranges[snapped.index];
+            if (snapped.time !== time) {
+                time = snapped.time;
+                videoRef.current.currentTime = time;
+            }
+        }
     }
 
     setCurrentTime(time);
 
-    // 2. Handle Auto Skip
-    if (autoSkip && segments.length > 0 && isPlaying) {
-      const currentSegment = segments.find(s => time >= s.start && time < s.end);
-      if (currentSegment && currentSegment.isSilent) {
-        const nextActive = segments.find(s => s.start >= currentSegment.end && !s.isSilent);
-        if (nextActive && nextActive.start < exportConfig.trimEnd) {
-           videoRef.current.currentTime = nextActive.start;
-           // We jumped, update time var for bg sync
-           time = nextActive.start;
-        }
+    // 2. Handle Auto Skip - follow the edit plan so the preview matches the export
+    const forwardRate = shuttleSpeed > 0 ? shuttleSpeed : 1;
+    if (autoSkip && plan.length > 0 && isPlaying && range) {
+      if (!findPieceAt(plan, time)) {
+        // Nothing left in this range means jumping to its end, which moves on to the next range
+        const target = findNextPiece(plan, time, range.end)?.start ?? range.end;
+        videoRef.current.currentTime = target;
+        // We jumped, update time var for bg sync
+        time = target;
       }
+      // Sped-up pauses play at their export speed
+      // Piece speed times shuttle speed can reach 64, so keep it in the range the element takes
+      const rate = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, (findPieceAt(plan, time)?.speed ?? 1) * forwardRate));
+      if (videoRef.current.playbackRate !== rate) videoRef.current.playbackRate = rate;
+    } else if (videoRef.current.playbackRate !== forwardRate) {
+      videoRef.current.playbackRate = forwardRate;
     }
 
     // 3. Sync Background Audio
@@ -143,8 +190,10 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
 
   const handleSeek = (time: number) => {
     if (videoRef.current) {
-        // Clamp seek
-        const clamped = Math.max(exportConfig.trimStart, Math.min(time, exportConfig.trimEnd));
+        // Clamp seek into the nearest keep range
+        const snapped = snapToRanges(ranges, Math.max(0, Math.min(time, duration)));
+        const clamped = snapped.time;
+        if (snapped.index !== -1) rangeIndexRef.current = snapped.index;
         videoRef.current.currentTime = clamped;
         setCurrentTime(clamped);
         
@@ -155,20 +204,155 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
     }
   };
 
-  const handleTrimChange = (start: number, end: number) => {
-      onUpdateConfig({ trimStart: start, trimEnd: end });
-      // If playhead is outside, move it
-      if (videoRef.current) {
-          if (videoRef.current.currentTime < start) {
-              videoRef.current.currentTime = start;
-              setCurrentTime(start);
-          } else if (videoRef.current.currentTime > end) {
-              videoRef.current.currentTime = start; // Reset to start
-              setCurrentTime(start);
+  const handleRangeChange = (id: number, start: number, end: number) => {
+      const next = resizeRange(ranges, id, start, end, duration);
+      onRangesChange(next, 'Trim');
+      // If playhead is outside the range being edited, move it
+      const range = next.find(r => r.id === id);
+      if (videoRef.current && range && rangeIndexRef.current === next.indexOf(range)) {
+          const time = videoRef.current.currentTime;
+          if (time < range.start || time > range.end) {
+              videoRef.current.currentTime = range.start;
+              setCurrentTime(range.start);
           }
       }
   };
 
+  // Reverse shuttle: the video element can't play backwards, so scrub it frame by frame
+  useEffect(() => {
+    if (shuttleSpeed >= 0) return;
+    let frame = 0;
+    let last = performance.now();
+
+    const step = (now: number) => {
+      const video = videoRef.current;
+      if (!video) return;
+      let time = video.currentTime + ((now - last) / 1000) * shuttleSpeed;
+      last = now;
+
+      // Ranges play in list order, so backwards means the previous one in the list
+      const range = ranges[rangeIndexRef.current];
+      if (range && time < range.start) {
+        const previous = ranges[rangeIndexRef.current - 1];
+        if (previous) {
+          rangeIndexRef.current--;
+          time = previous.end - FRAME_SECONDS;
+        } else {
+          time = range.start;
+          setShuttleSpeed(0);
+        }
+      }
+      time = Math.max(0, time);
+      video.currentTime = time;
+      setCurrentTime(time);
+      if (bgAudioRef.current) bgAudioRef.current.currentTime = calculateVirtualTime(time);
+      frame = requestAnimationFrame(step);
+    };
+
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [shuttleSpeed, ranges]);
+
+  const pausePlayback = () => {
+    videoRef.current?.pause();
+    bgAudioRef.current?.pause();
+    setIsPlaying(false);
+    setShuttleSpeed(0);
+  };
+
+  const shuttle = (direction: 1 | -1) => {
+    const video = videoRef.current;
+    if (!video) return;
+    // Same direction again steps up to the next speed
+    const current = Math.sign(shuttleSpeed) === direction ? Math.abs(shuttleSpeed) : 0;
+    const speed = SHUTTLE_SPEEDS.find(s => s > current) ?? SHUTTLE_SPEEDS[SHUTTLE_SPEEDS.length - 1];
+    setShuttleSpeed(speed * direction);
+
+    if (direction > 0) {
+      video.playbackRate = speed;
+      if (video.paused) {
+        if (findRangeIndex(ranges, video.currentTime) === -1 && ranges.length > 0) {
+          video.currentTime = ranges[0].start;
+          rangeIndexRef.current = 0;
+        }
+        video.play();
+        bgAudioRef.current?.play();
+        setIsPlaying(true);
+      }
+    } else {
+      video.pause();
+      bgAudioRef.current?.pause();
+      setIsPlaying(false);
+    }
+  };
+
+  // Nearest point in `points` strictly after (1) or before (-1) the playhead
+  const stepTo = (points: number[], direction: 1 | -1) => {
+    const sorted = [...points].sort((a, b) => a - b);
+    const target = direction > 0
+      ? sorted.find(p => p > currentTime + 1e-3)
+      : sorted.reverse().find(p => p < currentTime - 1e-3);
+    if (target !== undefined) handleSeek(target);
+  };
+
+  const runShortcut = (action: ShortcutAction) => {
+    const range = ranges[rangeIndexRef.current];
+    switch (action) {
+      case 'playPause': togglePlay(); break;
+      case 'shuttleReverse': shuttle(-1); break;
+      case 'shuttleForward': shuttle(1); break;
+      case 'shuttleStop': pausePlayback(); break;
+      case 'frameBack':
+        pausePlayback();
+        handleSeek(currentTime - FRAME_SECONDS);
+        break;
+      case 'frameForward':
+        pausePlayback();
+        handleSeek(currentTime + FRAME_SECONDS);
+        break;
+      case 'previousSegment': stepTo(segments.map(s => s.start), -1); break;
+      case 'nextSegment': stepTo(segments.map(s => s.start), 1); break;
+      // Cuts are wherever the output jumps: both ends of every piece
+      case 'previousCut': stepTo(plan.flatMap(p => [p.start, p.end]), -1); break;
+      case 'nextCut': stepTo(plan.flatMap(p => [p.start, p.end]), 1); break;
+      case 'setIn':
+        if (range) handleRangeChange(range.id, currentTime, range.end);
+        break;
+      case 'setOut':
+        if (range) handleRangeChange(range.id, range.start, currentTime);
+        break;
+      case 'toggleMagicSkip': onAutoSkipToggle(!autoSkip); break;
+      case 'showShortcuts': setShowShortcuts(true); break;
+    }
+  };
+
+  // Re-subscribed every render so the handler always sees current state
+  useEffect(() => {
+    if (!file || showShortcuts) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable) return;
+      // Focused buttons (e.g. the timeline's segment list) keep Space for themselves
+      if (target.tagName === 'BUTTON' && e.key === ' ') return;
+
+      const action = findAction(bindings, keyFromEvent(e));
+      if (!action) return;
+      e.preventDefault();
+      // Holding J or L shouldn't race through the speeds
+      if (e.repeat && (action === 'shuttleReverse' || action === 'shuttleForward' || action === 'playPause')) return;
+      runShortcut(action);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleBindingsChange = (next: KeyBindings) => {
+    setBindings(next);
+    saveBindings(next);
+  };
+
+  const currentCue = subtitles ? findCueAt(subtitles, currentTime) : undefined;
+
   if (!file) return null;
 
   return (
@@ -188,9 +372,26 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
                 src={src}
                 className={`w-full h-full object-contain ${isAudioOnly ? 'hidden' : ''}`}
                 onTimeUpdate={handleTimeUpdate}
-                onEnded={() => setIsPlaying(false)}
+                onEnded={() => {
+                    setIsPlaying(false);
+                    setShuttleSpeed(0);
+                }}
                 muted={isMuted}
             />
+            {/* Shuttle speed badge */}
+            {shuttleSpeed !== 0 && (
+                <div className="absolute top-3 right-3 px-2 py-1 rounded-md bg-black/60 border border-white/10 text-xs font-mono text-white">
+                    {shuttleSpeed < 0 ? `◀◀ ${-shuttleSpeed}×` : `${shuttleSpeed}× ▶▶`}
+                </div>
+            )}
+            {/* Current subtitle cue */}
+            {currentCue && (
+                <div className="absolute inset-x-0 bottom-6 z-10 flex justify-center px-6 pointer-events-none">
+                    <p className="px-3 py-1 rounded bg-black/75 text-white text-sm md:text-base text-center whitespace-pre-line">
+                        {currentCue.text}
+                    </p>
+                </div>
+            )}
             {/* Hidden audio element for background music */}
             {bgMusicSrc && (
                 <audio ref={bgAudioRef} src={bgMusicSrc} loop={false} volume={0.5} />
@@ -220,10 +421,17 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
                 segments={segments} 
                 duration={duration} 
                 currentTime={currentTime} 
-                trimStart={exportConfig.trimStart}
-                trimEnd={exportConfig.trimEnd}
+                ranges={ranges}
+                plan={plan}
+                outputView={outputView}
                 onSeek={handleSeek}
-                onTrimChange={handleTrimChange}
+                onRangeChange={handleRangeChange}
+                editMode={editMode}
+                onSegmentToggle={onSegmentToggle}
+                onBoundaryMove={onBoundaryMove}
+                onSplit={onSplit}
+                envelope={envelope}
+                videoFile={isAudioOnly ? null : file}
             />
 
             <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
@@ -246,11 +454,75 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
                 </button>
 
                 <span className="text-sm font-mono text-zinc-400">
-                    {new Date(currentTime * 1000).toISOString().substr(14, 5)} / {new Date(duration * 1000).toISOString().substr(14, 5)}
+                    {outputView
+                        ? `${new Date(calculateVirtualTime(currentTime) * 1000).toISOString().substr(14, 5)} / ${new Date(getPlanDuration(plan) * 1000).toISOString().substr(14, 5)}`
+                        : `${new Date(currentTime * 1000).toISOString().substr(14, 5)} / ${new Date(duration * 1000).toISOString().substr(14, 5)}`}
                 </span>
+
+                <div className="flex rounded-lg bg-zinc-800 p-0.5 text-xs">
+                    <button
+                        onClick={() => setOutputView(false)}
+                        className={`px-2 py-1 rounded-md transition-colors ${!outputView ? 'bg-zinc-700 text-zinc-200' : 'text-zinc-500 hover:text-zinc-300'}`}
+                    >
+                        Source
+                    </button>
+                    <button
+                        onClick={() => {
+                            setOutputView(true);
+                            setEditMode(false);
+                        }}
+                        title="Show the final video: cuts removed, output-time ruler"
+                        className={`px-2 py-1 rounded-md transition-colors ${outputView ? 'bg-zinc-700 text-zinc-200' : 'text-zinc-500 hover:text-zinc-300'}`}
+                    >
+                        Edited
+                    </button>
+                </div>
             </div>
 
-            <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={() => setShowShortcuts(true)}
+                    title="Keyboard shortcuts"
+                    className="p-1.5 rounded-lg text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 transition-colors"
+                >
+                    <Keyboard className="w-4 h-4" />
+                </button>
+                {manualEditCount > 0 && (
+                    <button
+                        onClick={onClearEdits}
+                        title="Discard manual edits"
+                        className="flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs text-zinc-400 hover:text-red-400 hover:bg-zinc-800 transition-colors"
+                    >
+                        <RotateCcw className="w-3.5 h-3.5" />
+                        <span>{manualEditCount}</span>
+                    </button>
+                )}
+                {editMode && (
+                    <button
+                        onClick={() => onSplit(currentTime)}
+                        title="Split the segment at the playhead"
+                        className="flex items-center space-x-2 px-3 py-1.5 rounded-lg text-sm font-medium bg-zinc-800 text-zinc-300 hover:bg-zinc-700 transition-all"
+                    >
+                        <SplitSquareHorizontal className="w-4 h-4" />
+                        <span>Split</span>
+                    </button>
+                )}
+                <button
+                    onClick={() => {
+                        setEditMode(!editMode);
+                        // Editing happens on the source timeline
+                        if (!editMode) setOutputView(false);
+                    }}
+                    title="Click segments to keep/cut them, drag boundaries to move them"
+                    className={`flex items-center space-x-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-all ${
+                        editMode 
+                        ? 'bg-violet-500 text-white shadow-[0_0_15px_rgba(139,92,246,0.4)]' 
+                        : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+                    }`}
+                >
+                    <MousePointerClick className="w-4 h-4" />
+                    <span>Edit Cuts</span>
+                </button>
                 <button
                     onClick={() => onAutoSkipToggle(!autoSkip)}
                     className={`flex items-center space-x-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-all ${
@@ -269,40 +541,72 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
 
         {/* Trim & Audio Tools */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* Trim Controls (Manual inputs + Drag hint) */}
+            {/* Keep Ranges (Manual inputs + Drag hint) */}
             <div className="bg-zinc-900 border border-zinc-800 p-4 rounded-xl">
                  <div className="flex justify-between items-center mb-3">
                     <h4 className="text-sm font-medium text-zinc-400 flex items-center gap-2">
-                        <Scissors className="w-4 h-4" /> Trim Range (sec)
+                        <Scissors className="w-4 h-4" /> Keep Ranges (sec)
                     </h4>
-                    <span className="text-[10px] text-zinc-600">Drag handles on timeline</span>
+                    <button
+                        onClick={() => onRangesChange(addRangeAt(ranges, currentTime, duration), 'Add range')}
+                        title="Split the range at the playhead, or fill the gap it is in"
+                        className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-zinc-400 hover:text-cyan-400 hover:bg-zinc-800 transition-colors"
+                    >
+                        <Plus className="w-3.5 h-3.5" />
+                        <span>At playhead</span>
+                    </button>
                  </div>
-                 <div className="flex items-center gap-3">
-                     <div className="flex-1">
-                         <label className="text-xs text-zinc-500 mb-1 block">Start</label>
-                         <input 
-                            type="number" 
-                            value={exportConfig.trimStart.toFixed(2)}
-                            step="0.1"
-                            min="0"
-                            max={exportConfig.trimEnd}
-                            onChange={(e) => handleTrimChange(Number(e.target.value), exportConfig.trimEnd)}
-                            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm focus:border-cyan-500 outline-none"
-                         />
-                     </div>
-                     <div className="flex-1">
-                         <label className="text-xs text-zinc-500 mb-1 block">End</label>
-                         <input 
-                            type="number" 
-                            value={exportConfig.trimEnd.toFixed(2)}
-                            step="0.1"
-                            min={exportConfig.trimStart}
-                            max={duration}
-                            onChange={(e) => handleTrimChange(exportConfig.trimStart, Number(e.target.value))}
-                            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm focus:border-cyan-500 outline-none"
-                         />
-                     </div>
+                 <div className="space-y-2">
+                     {ranges.map((range, index) => (
+                         <div key={range.id} className="flex items-center gap-2">
+                             <span className="text-xs font-mono text-amber-400 w-4 text-right">{index + 1}</span>
+                             <input 
+                                type="number" 
+                                value={range.start.toFixed(2)}
+                                step="0.1"
+                                min="0"
+                                max={range.end}
+                                onChange={(e) => handleRangeChange(range.id, Number(e.target.value), range.end)}
+                                className="w-full min-w-0 bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-sm focus:border-cyan-500 outline-none"
+                             />
+                             <span className="text-zinc-600">–</span>
+                             <input 
+                                type="number" 
+                                value={range.end.toFixed(2)}
+                                step="0.1"
+                                min={range.start}
+                                max={duration}
+                                onChange={(e) => handleRangeChange(range.id, range.start, Number(e.target.value))}
+                                className="w-full min-w-0 bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-sm focus:border-cyan-500 outline-none"
+                             />
+                             <button
+                                onClick={() => onRangesChange(moveRange(ranges, range.id, -1), 'Reorder ranges')}
+                                disabled={index === 0}
+                                title="Play earlier"
+                                className="p-1 rounded text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                             >
+                                <ChevronUp className="w-4 h-4" />
+                             </button>
+                             <button
+                                onClick={() => onRangesChange(moveRange(ranges, range.id, 1), 'Reorder ranges')}
+                                disabled={index === ranges.length - 1}
+                                title="Play later"
+                                className="p-1 rounded text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                             >
+                                <ChevronDown className="w-4 h-4" />
+                             </button>
+                             <button
+                                onClick={() => onRangesChange(removeRange(ranges, range.id), 'Remove range')}
+                                disabled={ranges.length === 1}
+                                title="Remove range"
+                                className="p-1 rounded text-zinc-500 hover:text-red-400 hover:bg-zinc-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                             >
+                                <Trash2 className="w-4 h-4" />
+                             </button>
+                         </div>
+                     ))}
                  </div>
+                 <p className="text-[10px] text-zinc-600 mt-3">Drag handles on timeline. Ranges play in this order.</p>
             </div>
 
             {/* Audio Upload */}
@@ -342,6 +646,14 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({
                  )}
             </div>
         </div>
+
+        {showShortcuts && (
+            <ShortcutsOverlay
+                bindings={bindings}
+                onChange={handleBindingsChange}
+                onClose={() => setShowShortcuts(false)}
+            />
+        )}
     </div>
   );
 };
@@ -0,0 +1,78 @@
+import { useCallback, useState } from 'react';
+
+export interface HistoryEntry<T> {
+  label: string;
+  state: T;
+  time: number;
+}
+
+interface HistoryState<T> {
+  entries: HistoryEntry<T>[];
+  index: number; // entry currently shown
+}
+
+const MAX_ENTRIES = 100;
+// Repeated edits with the same label this close together (slider drags,
+// handle drags) collapse into one undo step
+const COALESCE_MS = 800;
+
+/**
+ * Linear undo/redo history of labelled snapshots. Committing after an undo
+ * drops the redo branch, like every editor does.
+ */
+export const useHistory = <T,>(initial: T, initialLabel: string = 'Open project') => {
+  const [history, setHistory] = useState<HistoryState<T>>({
+    entries: [{ label: initialLabel, state: initial, time: 0 }],
+    index: 0
+  });
+
+  const commit = useCallback((label: string, update: (prev: T) => T) => {
+    setHistory(h => {
+      const current = h.entries[h.index];
+      const next = update(current.state);
+      if (next === current.state) return h;
+
+      const now = Date.now();
+      const isLatest = h.index === h.entries.length - 1;
+      if (isLatest && h.index > 0 && current.label === label && now - current.time < COALESCE_MS) {
+        const entries = h.entries.slice(0, h.index);
+        entries.push({ label, state: next, time: now });
+        return { entries, index: h.index };
+      }
+
+      const entries = [...h.entries.slice(0, h.index + 1), { label, state: next, time: now }];
+      const overflow = Math.max(0, entries.length - MAX_ENTRIES);
+      return { entries: entries.slice(overflow), index: entries.length - 1 - overflow };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => h.index > 0 ? { ...h, index: h.index - 1 } : h);
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => h.index < h.entries.length - 1 ? { ...h, index: h.index + 1 } : h);
+  }, []);
+
+  const jumpTo = useCallback((index: number) => {
+    setHistory(h => index >= 0 && index < h.entries.length ? { ...h, index } : h);
+  }, []);
+
+  // Starts a fresh history, e.g. when a new file is loaded
+  const reset = useCallback((state: T, label: string = initialLabel) => {
+    setHistory({ entries: [{ label, state, time: 0 }], index: 0 });
+  }, [initialLabel]);
+
+  return {
+    state: history.entries[history.index].state,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    commit,
+    undo,
+    redo,
+    jumpTo,
+    reset
+  };
+};
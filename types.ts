@@ -2,6 +2,21 @@ export interface AudioSegment {
   start: number;
   end: number;
   isSilent: boolean;
+  isPadding?: boolean; // kept only as pre/post-roll around speech
+  isManual?: boolean; // state was set by hand on the timeline
+}
+
+// Forces a time range to keep (isSilent false) or cut (isSilent true)
+export interface SegmentOverride {
+  start: number;
+  end: number;
+  isSilent: boolean;
+}
+
+// Hand corrections, kept apart from detection so re-running it doesn't wipe them
+export interface ManualEdits {
+  overrides: SegmentOverride[];
+  splits: number[]; // extra segment boundaries (seconds)
 }
 
 export interface ProcessingStats {
@@ -28,9 +43,98 @@ export enum ProcessingState {
 
 export type ExportFormat = 'mp4' | 'mov' | 'avi' | 'mp3' | 'wav' | 'aac';
 
+// What happens to silent segments: dropped, cut down to a target length, or sped up
+export type PauseMode = 'remove' | 'shorten' | 'speedup';
+
+// How the export script cuts: one re-encode per part joined with the concat
+// demuxer, a single trim/concat filter graph and one encode, or a stream copy
+// with the cuts moved out to keyframes
+export type ScriptMode = 'segments' | 'filtergraph' | 'copy';
+
+// One in/out range of the source that makes it into the output
+export interface KeepRange {
+  id: number;
+  start: number;
+  end: number;
+}
+
 export interface ExportConfig {
   format: ExportFormat;
-  trimStart: number;
-  trimEnd: number;
+  ranges: KeepRange[]; // output plays them in list order
   bgMusicFile: File | null;
+  scriptMode: ScriptMode;
+  burnSubtitles: boolean; // scripts burn the retimed subtitles into the video
+  padBefore: number; // pre-roll kept before each speech segment (seconds)
+  padAfter: number; // post-roll kept after each speech segment (seconds)
+  pauseMode: PauseMode;
+  pauseLength: number; // target length of each pause in 'shorten' mode (seconds)
+  pauseSpeed: number; // speed factor for pauses in 'speedup' mode
+}
+
+// Mean square per frame; each level halves the resolution of the previous one
+export type EnvelopeLevels = Float32Array[];
+
+export interface RmsEnvelope {
+  sampleRate: number;
+  duration: number;
+  hopSamples: number; // samples per frame at level 0
+  mix: EnvelopeLevels; // mixdown of all channels
+  channels: EnvelopeLevels[]; // one per source channel
+  peaks: EnvelopeLevels; // max absolute sample over all channels, for drawing
+}
+
+// volume: plain RMS against the threshold, voice: spectral voice activity detection
+export type Detector = 'volume' | 'voice';
+
+// mix: mixdown, loudest: loudest channel per window, channel: a fixed channel index
+export type ChannelMode = 'mix' | 'loudest' | 'channel';
+
+export interface DetectionSettings {
+  detector: Detector;
+  thresholdDb: number;
+  minSilenceDuration: number;
+  channelMode: ChannelMode;
+  channelIndex: number;
+  autoCalibrate: boolean; // pick thresholdDb / minSilenceDuration from the noise floor
+  // Advanced
+  hysteresisDb: number; // close threshold sits this far below thresholdDb (the open threshold)
+  attack: number; // seconds above the open threshold before speech starts
+  release: number; // seconds below the close threshold before speech ends
+  windowSize: number; // RMS window in seconds
+  minSpeechDuration: number; // shorter speech islands are absorbed into silence
+}
+
+// Spectral features per analysis frame, see utils/voiceActivity.ts
+export interface VoiceFeatures {
+  hopSeconds: number;
+  duration: number;
+  energyDb: Float32Array;
+  bandRatio: Float32Array; // share of energy in the speech band
+  flatness: Float32Array; // spectral flatness within the speech band
+  zeroCrossingRate: Float32Array; // crossings per sample
+}
+
+export interface ChannelLevel {
+  levelDb: number; // loud (speech) level, 90th percentile of 50ms windows
+  floorDb: number; // quiet level, 10th percentile
+}
+
+export interface ProjectAudio {
+  audioBuffer: AudioBuffer;
+  envelope: RmsEnvelope;
+}
+
+export type AnalysisStage = 'read' | 'decode' | 'envelope' | 'segmentation';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  stageProgress: number; // 0..1 within the current stage
+  overall: number; // 0..1 across all stages
+}
+
+// Everything covered by undo/redo
+export interface ProjectEdits {
+  detection: DetectionSettings;
+  exportConfig: ExportConfig;
+  manualEdits: ManualEdits;
 }
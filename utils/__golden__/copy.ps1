@@ -0,0 +1,18 @@
+$ErrorActionPreference = 'Stop'
+# Fast copy of it's 100% a&b^c!d $HOME `x` ünï (1).mp4 to it's_100%_a&b^c!d_$HOME_`x`_ünï_(1)_edited.mp4 (cuts moved to keyframes)
+New-Item -ItemType Directory -Force -Path segments | Out-Null
+Write-Host 'Copying segments...'
+
+ffmpeg -y -ss 0.0000 -i 'it''s 100% a&b^c!d $HOME `x` ünï (1).mp4' -map 0 -c copy -avoid_negative_ts make_zero 'segments\part_0000.mp4'
+
+Set-Content -Encoding ascii -LiteralPath 'segments\list.txt' -Value @(
+  'file ''part_0000.mp4'''
+)
+
+Write-Host 'Joining...'
+ffmpeg -y -f concat -safe 0 -i 'segments\list.txt' -c copy 'segments\temp_concat.mp4'
+ffmpeg -y -i 'segments\temp_concat.mp4' -i '@music ‘‘loop’’ 50%.mp3' -filter_complex '[0:a][1:a]amix=inputs=2:duration=first:weights=1 0.2[a]' -map 0:v -map '[a]' -c:v copy -c:a aac 'it''s_100%_a&b^c!d_$HOME_`x`_ünï_(1)_edited.mp4'
+
+Write-Host 'Done! Saved to it''s_100%_a&b^c!d_$HOME_`x`_ünï_(1)_edited.mp4'
+Remove-Item -Recurse -Force -LiteralPath segments
+Read-Host -Prompt 'Press Enter to close' | Out-Null
@@ -0,0 +1,21 @@
+$ErrorActionPreference = 'Stop'
+# Process -clip.mp4 to .\-clip_edited.mp4
+New-Item -ItemType Directory -Force -Path segments | Out-Null
+Write-Host 'Extracting valid segments...'
+
+ffmpeg -y -i '.\-clip.mp4' -ss 0.0000 -t 2.0000 -c:v libx264 -preset ultrafast -c:a aac 'segments\part_0000.mp4'
+ffmpeg -y -i '.\-clip.mp4' -ss 2.0000 -t 1.0000 -filter:v setpts=PTS/4 -filter:a 'atempo=2.0,atempo=2.0000' -c:v libx264 -preset ultrafast -c:a aac 'segments\part_0001.mp4'
+ffmpeg -y -i '.\-clip.mp4' -ss 3.0000 -t 2.0000 -c:v libx264 -preset ultrafast -c:a aac 'segments\part_0002.mp4'
+
+Set-Content -Encoding ascii -LiteralPath 'segments\list.txt' -Value @(
+  'file ''part_0000.mp4'''
+  'file ''part_0001.mp4'''
+  'file ''part_0002.mp4'''
+)
+
+Write-Host 'Concatenating...'
+ffmpeg -y -f concat -safe 0 -i 'segments\list.txt' -c copy '.\-clip_edited.mp4'
+
+Write-Host 'Done! Saved to .\-clip_edited.mp4'
+Remove-Item -Recurse -Force -LiteralPath segments
+Read-Host -Prompt 'Press Enter to close' | Out-Null
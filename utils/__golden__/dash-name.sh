@@ -0,0 +1,21 @@
+#!/bin/bash
+
+# Process -clip.mp4 to ./-clip_edited.mp4
+mkdir -p segments
+echo 'Extracting valid segments...'
+
+ffmpeg -y -i ./-clip.mp4 -ss 0.0000 -t 2.0000 -c:v libx264 -preset ultrafast -c:a aac segments/part_0000.mp4
+ffmpeg -y -i ./-clip.mp4 -ss 2.0000 -t 1.0000 -filter:v setpts=PTS/4 -filter:a 'atempo=2.0,atempo=2.0000' -c:v libx264 -preset ultrafast -c:a aac segments/part_0001.mp4
+ffmpeg -y -i ./-clip.mp4 -ss 3.0000 -t 2.0000 -c:v libx264 -preset ultrafast -c:a aac segments/part_0002.mp4
+
+cat > segments/list.txt <<'EOF'
+file 'part_0000.mp4'
+file 'part_0001.mp4'
+file 'part_0002.mp4'
+EOF
+
+echo 'Concatenating...'
+ffmpeg -y -f concat -safe 0 -i segments/list.txt -c copy ./-clip_edited.mp4
+
+echo 'Done! Saved to ./-clip_edited.mp4'
+rm -rf segments
@@ -0,0 +1,75 @@
+@echo off
+chcp 65001 >nul
+setlocal DisableDelayedExpansion
+REM Process it's 100%% a^&b^^c!d $HOME `x` ünï ^(1^).mp4 to it's_100%%_a^&b^^c!d_$HOME_`x`_ünï_^(1^)_edited.mp4 in a single pass ^(30 parts^)
+(
+echo [0:v]trim=start=0.0000:end=1.0000,setpts=PTS-STARTPTS[v0];
+echo [0:a]atrim=start=0.0000:end=1.0000,asetpts=PTS-STARTPTS[a0];
+echo [0:v]trim=start=1.0000:end=2.0000,setpts=^(PTS-STARTPTS^)/4[v1];
+echo [0:a]atrim=start=1.0000:end=2.0000,asetpts=PTS-STARTPTS,atempo=2.0,atempo=2.0000[a1];
+echo [0:v]trim=start=2.0000:end=3.0000,setpts=PTS-STARTPTS[v2];
+echo [0:a]atrim=start=2.0000:end=3.0000,asetpts=PTS-STARTPTS[a2];
+echo [0:v]trim=start=3.0000:end=4.0000,setpts=^(PTS-STARTPTS^)/4[v3];
+echo [0:a]atrim=start=3.0000:end=4.0000,asetpts=PTS-STARTPTS,atempo=2.0,atempo=2.0000[a3];
+echo [0:v]trim=start=4.0000:end=5.0000,setpts=PTS-STARTPTS[v4];
+echo [0:a]atrim=start=4.0000:end=5.0000,asetpts=PTS-STARTPTS[a4];
+echo [0:v]trim=start=5.0000:end=6.0000,setpts=^(PTS-STARTPTS^)/4[v5];
+echo [0:a]atrim=start=5.0000:end=6.0000,asetpts=PTS-STARTPTS,atempo=2.0,atempo=2.0000[a5];
+echo [0:v]trim=start=6.0000:end=7.0000,setpts=PTS-STARTPTS[v6];
+echo [0:a]atrim=start=6.0000:end=7.0000,asetpts=PTS-STARTPTS[a6];
+echo [0:v]trim=start=7.0000:end=8.0000,setpts=^(PTS-STARTPTS^)/4[v7];
+echo [0:a]atrim=start=7.0000:end=8.0000,asetpts=PTS-STARTPTS,atempo=2.0,atempo=2.0000[a7];
+echo [0:v]trim=start=8.0000:end=9.0000,setpts=PTS-STARTPTS[v8];
+echo [0:a]atrim=start=8.0000:end=9.0000,asetpts=PTS-STARTPTS[a8];
+echo [0:v]trim=start=9.0000:end=10.0000,setpts=^(PTS-STARTPTS^)/4[v9];
+echo [0:a]atrim=start=9.0000:end=10.0000,asetpts=PTS-STARTPTS,atempo=2.0,atempo=2.0000[a9];
+echo [0:v]trim=start=10.0000:end=11.0000,setpts=PTS-STARTPTS[v10];
+echo [0:a]atrim=start=10.0000:end=11.0000,asetpts=PTS-STARTPTS[a10];
+echo [0:v]trim=start=11.0000:end=12.0000,setpts=^(PTS-STARTPTS^)/4[v11];
+echo [0:a]atrim=start=11.0000:end=12.0000,asetpts=PTS-STARTPTS,atempo=2.0,atempo=2.0000[a11];
+echo [0:v]trim=start=12.0000:end=13.0000,setpts=PTS-STARTPTS[v12];
+echo [0:a]atrim=start=12.0000:end=13.0000,asetpts=PTS-STARTPTS[a12];
+echo [0:v]trim=start=13.0000:end=14.0000,setpts=^(PTS-STARTPTS^)/4[v13];
+echo [0:a]atrim=start=13.0000:end=14.0000,asetpts=PTS-STARTPTS,atempo=2.0,atempo=2.0000[a13];
+echo [0:v]trim=start=14.0000:end=15.0000,setpts=PTS-STARTPTS[v14];
+echo [0:a]atrim=start=14.0000:end=15.0000,asetpts=PTS-STARTPTS[a14];
+echo [0:v]trim=start=15.0000:end=16.0000,setpts=^(PTS-STARTPTS^)/4[v15];
+echo [0:a]atrim=start=15.0000:end=16.0000,asetpts=PTS-STARTPTS,atempo=2.0,atempo=2.0000[a15];
+echo [0:v]trim=start=16.0000:end=17.0000,setpts=PTS-STARTPTS[v16];
+echo [0:a]atrim=start=16.0000:end=17.0000,asetpts=PTS-STARTPTS[a16];
+echo [0:v]trim=start=17.0000:end=18.0000,setpts=^(PTS-STARTPTS^)/4[v17];
+echo [0:a]atrim=start=17.0000:end=18.0000,asetpts=PTS-STARTPTS,atempo=2.0,atempo=2.0000[a17];
+echo [0:v]trim=start=18.0000:end=19.0000,setpts=PTS-STARTPTS[v18];
+echo [0:a]atrim=start=18.0000:end=19.0000,asetpts=PTS-STARTPTS[a18];
+echo [0:v]trim=start=19.0000:end=20.0000,setpts=^(PTS-STARTPTS^)/4[v19];
+echo [0:a]atrim=start=19.0000:end=20.0000,asetpts=PTS-STARTPTS,atempo=2.0,atempo=2.0000[a19];
+echo [0:v]trim=start=20.0000:end=21.0000,setpts=PTS-STARTPTS[v20];
+echo [0:a]atrim=start=20.0000:end=21.0000,asetpts=PTS-STARTPTS[a20];
+echo [0:v]trim=start=21.0000:end=22.0000,setpts=^(PTS-STARTPTS^)/4[v21];
+echo [0:a]atrim=start=21.0000:end=22.0000,asetpts=PTS-STARTPTS,atempo=2.0,atempo=2.0000[a21];
+echo [0:v]trim=start=22.0000:end=23.0000,setpts=PTS-STARTPTS[v22];
+echo [0:a]atrim=start=22.0000:end=23.0000,asetpts=PTS-STARTPTS[a22];
+echo [0:v]trim=start=23.0000:end=24.0000,setpts=^(PTS-STARTPTS^)/4[v23];
+echo [0:a]atrim=start=23.0000:end=24.0000,asetpts=PTS-STARTPTS,atempo=2.0,atempo=2.0000[a23];
+echo [0:v]trim=start=24.0000:end=25.0000,setpts=PTS-STARTPTS[v24];
+echo [0:a]atrim=start=24.0000:end=25.0000,asetpts=PTS-STARTPTS[a24];
+echo [0:v]trim=start=25.0000:end=26.0000,setpts=^(PTS-STARTPTS^)/4[v25];
+echo [0:a]atrim=start=25.0000:end=26.0000,asetpts=PTS-STARTPTS,atempo=2.0,atempo=2.0000[a25];
+echo [0:v]trim=start=26.0000:end=27.0000,setpts=PTS-STARTPTS[v26];
+echo [0:a]atrim=start=26.0000:end=27.0000,asetpts=PTS-STARTPTS[a26];
+echo [0:v]trim=start=27.0000:end=28.0000,setpts=^(PTS-STARTPTS^)/4[v27];
+echo [0:a]atrim=start=27.0000:end=28.0000,asetpts=PTS-STARTPTS,atempo=2.0,atempo=2.0000[a27];
+echo [0:v]trim=start=28.0000:end=29.0000,setpts=PTS-STARTPTS[v28];
+echo [0:a]atrim=start=28.0000:end=29.0000,asetpts=PTS-STARTPTS[a28];
+echo [0:v]trim=start=29.0000:end=30.0000,setpts=^(PTS-STARTPTS^)/4[v29];
+echo [0:a]atrim=start=29.0000:end=30.0000,asetpts=PTS-STARTPTS,atempo=2.0,atempo=2.0000[a29];
+echo [v0][a0][v1][a1][v2][a2][v3][a3][v4][a4][v5][a5][v6][a6][v7][a7][v8][a8][v9][a9][v10][a10][v11][a11][v12][a12][v13][a13][v14][a14][v15][a15][v16][a16][v17][a17][v18][a18][v19][a19][v20][a20][v21][a21][v22][a22][v23][a23][v24][a24][v25][a25][v26][a26][v27][a27][v28][a28][v29][a29]concat=n=30:v=1:a=1[vout][cat_a];
+echo [cat_a]anull[aout]
+) > filter_graph.txt
+
+echo Cutting and encoding...
+ffmpeg -y -i "it's 100%% a&b^c!d $HOME `x` ünï (1).mp4" -filter_complex_script filter_graph.txt -map "[vout]" -c:v libx264 -crf 18 -preset medium -map "[aout]" -c:a aac "it's_100%%_a&b^c!d_$HOME_`x`_ünï_(1)_edited.mp4"
+del filter_graph.txt
+
+echo Done! Saved to it's_100%%_a^&b^^c!d_$HOME_`x`_ünï_^(1^)_edited.mp4
+pause
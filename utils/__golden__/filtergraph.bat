@@ -0,0 +1,9 @@
+@echo off
+chcp 65001 >nul
+setlocal DisableDelayedExpansion
+REM Process it's 100%% a^&b^^c!d $HOME `x` ünï ^(1^).mp4 to it's_100%%_a^&b^^c!d_$HOME_`x`_ünï_^(1^)_edited.mp4 in a single pass ^(3 parts^)
+echo Cutting and encoding...
+ffmpeg -y -i "it's 100%% a&b^c!d $HOME `x` ünï (1).mp4" -i "@music ‘loop’ 50%%.mp3" -filter_complex "[0:v]trim=start=0.0000:end=2.0000,setpts=PTS-STARTPTS[v0];[0:a]atrim=start=0.0000:end=2.0000,asetpts=PTS-STARTPTS[a0];[0:v]trim=start=2.0000:end=3.0000,setpts=(PTS-STARTPTS)/4[v1];[0:a]atrim=start=2.0000:end=3.0000,asetpts=PTS-STARTPTS,atempo=2.0,atempo=2.0000[a1];[0:v]trim=start=3.0000:end=5.0000,setpts=PTS-STARTPTS[v2];[0:a]atrim=start=3.0000:end=5.0000,asetpts=PTS-STARTPTS[a2];[v0][a0][v1][a1][v2][a2]concat=n=3:v=1:a=1[vout][cat_a];[cat_a][1:a]amix=inputs=2:duration=first:weights=1 0.2[aout];[vout]subtitles=it_s_edited.srt[vsub]" -map "[vsub]" -c:v libx264 -crf 18 -preset medium -map "[aout]" -c:a aac "it's_100%%_a&b^c!d_$HOME_`x`_ünï_(1)_edited.mp4"
+
+echo Done! Saved to it's_100%%_a^&b^^c!d_$HOME_`x`_ünï_^(1^)_edited.mp4
+pause
@@ -0,0 +1,24 @@
+#!/bin/bash
+
+# Process it's 100% a&b^c!d $HOME `x` ünï (1).mp4 to it's_100%_a&b^c!d_$HOME_`x`_ünï_(1)_edited.wav
+mkdir -p segments
+echo 'Extracting valid segments...'
+
+ffmpeg -y -i 'it'\''s 100% a&b^c!d $HOME `x` ünï (1).mp4' -ss 0.0000 -t 2.0000 -vn -c:a pcm_s16le segments/part_0000.wav
+ffmpeg -y -i 'it'\''s 100% a&b^c!d $HOME `x` ünï (1).mp4' -ss 2.0000 -t 1.0000 -filter:a 'atempo=2.0,atempo=2.0000' -vn -c:a pcm_s16le segments/part_0001.wav
+ffmpeg -y -i 'it'\''s 100% a&b^c!d $HOME `x` ünï (1).mp4' -ss 3.0000 -t 2.0000 -vn -c:a pcm_s16le segments/part_0002.wav
+
+cat > segments/list.txt <<'EOF'
+file 'part_0000.wav'
+file 'part_0001.wav'
+file 'part_0002.wav'
+EOF
+
+echo 'Concatenating...'
+ffmpeg -y -f concat -safe 0 -i segments/list.txt -c copy segments/temp_concat.wav
+echo 'Adding background music (Main 100%, BG 20%)...'
+ffmpeg -y -i segments/temp_concat.wav -i '@music ‘loop’ 50%.mp3' -filter_complex 'amix=inputs=2:duration=first:weights=1 0.2' -c:a pcm_s16le 'it'\''s_100%_a&b^c!d_$HOME_`x`_ünï_(1)_edited.wav'
+rm -f segments/temp_concat.wav
+
+echo 'Done! Saved to it'\''s_100%_a&b^c!d_$HOME_`x`_ünï_(1)_edited.wav'
+rm -rf segments
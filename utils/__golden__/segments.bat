@@ -0,0 +1,28 @@
+@echo off
+chcp 65001 >nul
+setlocal DisableDelayedExpansion
+REM Process it's 100%% a^&b^^c!d $HOME `x` ünï ^(1^).mp4 to it's_100%%_a^&b^^c!d_$HOME_`x`_ünï_^(1^)_edited.mp4
+if not exist segments mkdir segments
+echo Extracting valid segments...
+
+ffmpeg -y -i "it's 100%% a&b^c!d $HOME `x` ünï (1).mp4" -ss 0.0000 -t 2.0000 -c:v libx264 -preset ultrafast -c:a aac "segments\part_0000.mp4"
+ffmpeg -y -i "it's 100%% a&b^c!d $HOME `x` ünï (1).mp4" -ss 2.0000 -t 1.0000 -filter:v setpts=PTS/4 -filter:a "atempo=2.0,atempo=2.0000" -c:v libx264 -preset ultrafast -c:a aac "segments\part_0001.mp4"
+ffmpeg -y -i "it's 100%% a&b^c!d $HOME `x` ünï (1).mp4" -ss 3.0000 -t 2.0000 -c:v libx264 -preset ultrafast -c:a aac "segments\part_0002.mp4"
+
+(
+echo file 'part_0000.mp4'
+echo file 'part_0001.mp4'
+echo file 'part_0002.mp4'
+) > "segments\list.txt"
+
+echo Concatenating...
+ffmpeg -y -f concat -safe 0 -i "segments\list.txt" -c copy "segments\temp_concat.mp4"
+echo Adding background music ^(Main 100%%, BG 20%%^)...
+ffmpeg -y -i "segments\temp_concat.mp4" -i "@music ‘loop’ 50%%.mp3" -filter_complex "[0:a][1:a]amix=inputs=2:duration=first:weights=1 0.2[a]" -map 0:v -map "[a]" -c:v copy -c:a aac "segments\temp_subs.mp4"
+del "segments\temp_concat.mp4"
+echo Burning in subtitles...
+ffmpeg -y -i "segments\temp_subs.mp4" -vf subtitles=it_s_edited.srt -c:v libx264 -c:a copy "it's_100%%_a&b^c!d_$HOME_`x`_ünï_(1)_edited.mp4"
+
+echo Done! Saved to it's_100%%_a^&b^^c!d_$HOME_`x`_ünï_^(1^)_edited.mp4
+rmdir /s /q segments
+pause
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { AudioSegment, ExportFormat, ScriptMode } from '../types';
+import { generateFfmpegScript } from './audioAnalysis';
+import { ScriptPlatform, SHELL_DIALECTS } from './shellQuote';
+
+const HOSTILE_NAME = "it's 100% a&b^c!d $HOME `x` ünï (1).mp4";
+const BG_MUSIC_NAME = '@music ‘loop’ 50%.mp3';
+
+// Speech, a pause sped up to 4x, speech
+const SEGMENTS: AudioSegment[] = [
+  { start: 0, end: 2, isSilent: false },
+  { start: 2, end: 3, isSilent: true },
+  { start: 3, end: 5, isSilent: false }
+];
+
+// Enough alternating pieces to move the single-pass graph into a script file
+const MANY_SEGMENTS: AudioSegment[] = Array.from({ length: 30 }, (_, i) => ({ start: i, end: i + 1, isSilent: i % 2 === 1 }));
+
+const generate = (
+  platform: ScriptPlatform,
+  options: { format?: ExportFormat; scriptMode?: ScriptMode; filename?: string; segments?: AudioSegment[]; bgMusic?: boolean; subtitles?: boolean } = {}
+) => {
+  const segments = options.segments ?? SEGMENTS;
+  return generateFfmpegScript(segments, options.filename ?? HOSTILE_NAME, platform, {
+    format: options.format ?? 'mp4',
+    ranges: [{ start: 0, end: segments[segments.length - 1].end }],
+    pauseMode: 'speedup',
+    pauseLength: 0.5,
+    pauseSpeed: 4,
+    scriptMode: options.scriptMode,
+    keyframes: [0, 1, 2.5, 4],
+    bgMusicName: options.bgMusic ? BG_MUSIC_NAME : undefined,
+    subtitleName: options.subtitles ? 'it_s_edited.srt' : undefined
+  });
+};
+
+const PLATFORMS = Object.keys(SHELL_DIALECTS) as ScriptPlatform[];
+const extension = (platform: ScriptPlatform) => SHELL_DIALECTS[platform].fileName.split('.').pop();
+
+describe.each(PLATFORMS)('generateFfmpegScript (%s)', platform => {
+  const golden = (name: string) => `./__golden__/${name}.${extension(platform)}`;
+
+  it('writes the segments script', async () => {
+    await expect(generate(platform, { bgMusic: true, subtitles: true })).toMatchFileSnapshot(golden('segments'));
+  });
+
+  it('lists the real part files for audio-only formats', async () => {
+    const script = generate(platform, { format: 'wav', bgMusic: true });
+    expect(script).toContain(`part_0002.wav`);
+    expect(script).not.toMatch(/part_\d+\.mp4/);
+    await expect(script).toMatchFileSnapshot(golden('segments-wav'));
+  });
+
+  it('writes the single-pass script', async () => {
+    await expect(generate(platform, { scriptMode: 'filtergraph', bgMusic: true, subtitles: true })).toMatchFileSnapshot(golden('filtergraph'));
+  });
+
+  it('writes a long single-pass graph to a file', async () => {
+    await expect(generate(platform, { scriptMode: 'filtergraph', segments: MANY_SEGMENTS })).toMatchFileSnapshot(golden('filtergraph-file'));
+  });
+
+  it('writes the fast copy script', async () => {
+    await expect(generate(platform, { scriptMode: 'copy', bgMusic: true })).toMatchFileSnapshot(golden('copy'));
+  });
+
+  it('keeps names starting with a dash from reading as options', async () => {
+    await expect(generate(platform, { filename: '-clip.mp4' })).toMatchFileSnapshot(golden('dash-name'));
+  });
+
+  it('refuses a plan with nothing left', () => {
+    const segments: AudioSegment[] = [{ start: 0, end: 5, isSilent: true }];
+    expect(() => generateFfmpegScript(segments, 'a.mp4', platform, {
+      format: 'mp4', ranges: [{ start: 0, end: 5 }], pauseMode: 'remove', pauseLength: 0, pauseSpeed: 1
+    })).toThrow('Nothing to export');
+  });
+});
@@ -1,242 +1,352 @@
-import { AudioSegment, ExportFormat } from '../types';
+import { AudioSegment, ChannelMode, DetectionSettings, ExportFormat, RmsEnvelope, ScriptMode } from '../types';
+import { buildRmsEnvelope, readEnvelope } from './audioEnvelope';
+import { buildEditPlan, EditPiece, EditPlanConfig } from './editTimeline';
+import { atempoChain, BG_MUSIC_WEIGHT, buildFilterGraph, getOutputCodecs } from './filterGraph';
+import { snapPlanToKeyframes, SnappedPiece } from './keyframes';
+import { asLocalPath, ScriptPlatform, SHELL_DIALECTS, ShellDialect } from './shellQuote';
 
 export const extractAudioFromVideo = async (file: File): Promise<AudioBuffer> => {
   const arrayBuffer = await file.arrayBuffer();
   const audioContext = new AudioContext();
-  return await audioContext.decodeAudioData(arrayBuffer);
+  try {
+    return await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    // Browsers cap the number of open contexts; this one was only needed to decode
+    audioContext.close();
+  }
+};
+
+export const DEFAULT_DETECTION_SETTINGS: DetectionSettings = {
+  detector: 'volume',
+  thresholdDb: -35,
+  minSilenceDuration: 0.5,
+  channelMode: 'loudest',
+  channelIndex: 0,
+  autoCalibrate: false,
+  hysteresisDb: 0,
+  attack: 0,
+  release: 0,
+  windowSize: 0.05,
+  minSpeechDuration: 0
 };
 
 export const detectSilence = (
   audioBuffer: AudioBuffer,
   thresholdDb: number = -40,
-  minSilenceDuration: number = 0.5 // seconds
+  minSilenceDuration: number = 0.5, // seconds
+  channelMode: ChannelMode = 'loudest',
+  channelIndex: number = 0
 ): AudioSegment[] => {
-  const rawData = audioBuffer.getChannelData(0); // Analyze first channel
-  const samples = rawData.length;
-  const sampleRate = audioBuffer.sampleRate;
-  const segments: AudioSegment[] = [];
-  
-  // Convert dB to amplitude
-  const threshold = Math.pow(10, thresholdDb / 20);
-  
-  let isCurrentlySilent = false;
-  let segmentStart = 0;
+  return segmentEnvelope(buildRmsEnvelope(audioBuffer), { ...DEFAULT_DETECTION_SETTINGS, thresholdDb, minSilenceDuration, channelMode, channelIndex });
+};
+
+// Same as detectSilence, but works on a precomputed envelope so the
+// sliders can re-run it without touching the decoded audio again.
+export const segmentEnvelope = (
+  envelope: RmsEnvelope,
+  settings: DetectionSettings
+): AudioSegment[] => {
+  // Convert dB to amplitude. Speech opens above the open threshold and only
+  // closes again once the level drops below the (lower) close threshold.
+  const openThreshold = Math.pow(10, settings.thresholdDb / 20);
+  const closeThreshold = Math.pow(10, (settings.thresholdDb - Math.max(0, settings.hysteresisDb)) / 20);
   
   // Use a window to smooth out momentary peaks
-  const windowSize = Math.floor(sampleRate * 0.05); // 50ms window
-  
-  for (let i = 0; i < samples; i += windowSize) {
-    // Calculate RMS of the window
-    let sum = 0;
-    const end = Math.min(i + windowSize, samples);
-    for (let j = i; j < end; j++) {
-      sum += rawData[j] * rawData[j];
-    }
-    const rms = Math.sqrt(sum / (end - i));
-    
-    const isSilentFrame = rms < threshold;
-    const currentTime = i / sampleRate;
-
-    if (i === 0) {
-      isCurrentlySilent = isSilentFrame;
-      segmentStart = 0;
+  const { rms, windowSeconds } = readEnvelope(envelope, settings.windowSize, settings.channelMode, settings.channelIndex);
+
+  const segments = gateSeries(rms, windowSeconds, envelope.duration, {
+    open: openThreshold,
+    close: closeThreshold,
+    attack: settings.attack,
+    release: settings.release
+  });
+
+  return applyDurationRules(segments, settings.minSilenceDuration, settings.minSpeechDuration);
+};
+
+export interface GateOptions {
+  open: number; // value at or above which speech starts
+  close: number; // value below which speech ends
+  attack: number; // seconds the value must stay above `open` before speech starts
+  release: number; // seconds the value must stay below `close` before speech ends
+}
+
+/**
+ * Turns a per-window level series into alternating speech/silence segments.
+ * Boundaries are placed where the level first crossed the threshold, so
+ * attack and release only decide whether a crossing counts, they never
+ * shift the cut itself.
+ */
+export const gateSeries = (
+  values: ArrayLike<number>,
+  windowSeconds: number,
+  duration: number,
+  options: GateOptions
+): AudioSegment[] => {
+  const segments: AudioSegment[] = [];
+  if (values.length === 0) return [{ start: 0, end: duration, isSilent: true }];
+
+  let isCurrentlySilent = values[0] < options.open;
+  let segmentStart = 0;
+  // Consecutive windows that disagree with the current state
+  let run = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    const disagrees = isCurrentlySilent ? values[i] >= options.open : values[i] < options.close;
+    if (!disagrees) {
+      run = 0;
+      continue;
     }
 
-    if (isSilentFrame !== isCurrentlySilent) {
-      // State change
+    run++;
+    const hold = isCurrentlySilent ? options.attack : options.release;
+    if (run * windowSeconds < hold) continue;
+
+    // State change, back-dated to the first window of the run
+    const currentTime = (i - run + 1) * windowSeconds;
+    if (currentTime > segmentStart) {
       segments.push({
         start: segmentStart,
         end: currentTime,
         isSilent: isCurrentlySilent
       });
-      isCurrentlySilent = isSilentFrame;
       segmentStart = currentTime;
     }
+    isCurrentlySilent = !isCurrentlySilent;
+    run = 0;
   }
 
   // Push final segment
   segments.push({
     start: segmentStart,
-    end: samples / sampleRate,
+    end: duration,
     isSilent: isCurrentlySilent
   });
 
-  // Filter out short silences (noise gating basically)
+  return mergeSegments(segments);
+};
+
+// Joins neighbours that ended up in the same state
+const mergeSegments = (segments: AudioSegment[]): AudioSegment[] => {
   const mergedSegments: AudioSegment[] = [];
   
-  for (let i = 0; i < segments.length; i++) {
-    const seg = segments[i];
-    
-    if (seg.isSilent && (seg.end - seg.start) < minSilenceDuration) {
-      seg.isSilent = false;
-    }
-    
+  for (const seg of segments) {
     if (mergedSegments.length > 0 && mergedSegments[mergedSegments.length - 1].isSilent === seg.isSilent) {
       mergedSegments[mergedSegments.length - 1].end = seg.end;
     } else {
-      mergedSegments.push(seg);
+      mergedSegments.push({ ...seg });
     }
   }
 
   return mergedSegments;
 };
 
-// Helper to escape filenames for shell scripts
-const escapeName = (name: string, platform: 'win' | 'unix') => {
-    if (platform === 'unix') {
-        // Escape quotes and backslashes
-        return name.replace(/(["\\$`])/g, '\\$1');
-    } else {
-        // Windows batch is tricky, mostly just quotes around the whole thing works, 
-        // but if filename has quotes, we replace them? 
-        // Best effort:
-        return name;
-    }
+/**
+ * Filters out short silences (noise gating basically), then absorbs speech
+ * islands shorter than `minSpeechDuration` - coughs, clicks, single-window
+ * blips - into the silence around them.
+ */
+export const applyDurationRules = (
+  segments: AudioSegment[],
+  minSilenceDuration: number,
+  minSpeechDuration: number
+): AudioSegment[] => {
+  const bridged = mergeSegments(segments.map(seg => ({
+    ...seg,
+    isSilent: seg.isSilent && (seg.end - seg.start) >= minSilenceDuration
+  })));
+
+  if (minSpeechDuration <= 0) return bridged;
+
+  return mergeSegments(bridged.map(seg => ({
+    ...seg,
+    isSilent: seg.isSilent || (seg.end - seg.start) < minSpeechDuration
+  })));
+};
+
+// Per-part filters for sped-up pauses (empty for normal speed)
+const speedFilters = (speed: number, isAudioOnly: boolean): string[] => {
+  if (speed === 1) return [];
+  const audio = ['-filter:a', atempoChain(speed)];
+  return isAudioOnly ? audio : ['-filter:v', `setpts=PTS/${speed}`, ...audio];
+};
+
+// Above this many pieces the graph goes to a file; a long -filter_complex
+// argument runs into the command line limit, on Windows at 8191 characters
+const FILTER_SCRIPT_THRESHOLD = 20;
+const FILTER_SCRIPT_NAME = 'filter_graph.txt';
+
+const SEGMENT_DIR = 'segments';
+
+// Wraps the body in the shell's prologue and epilogue
+const finishScript = (sh: ShellDialect, lines: string[]) =>
+  [...sh.prologue, ...lines, ...sh.epilogue].join('\n') + '\n';
+
+/**
+ * Single-pass script: one trim/atrim + concat filter graph cuts every piece
+ * out of the source. The media is encoded once, and the joins are
+ * sample-accurate instead of butting separately encoded parts together.
+ */
+const filterGraphScript = (
+  plan: EditPiece[],
+  sh: ShellDialect,
+  names: { ext: ExportFormat, inputFilename: string, bgMusicFilename: string, outputName: string, subtitleName?: string }
+): string => {
+  const { ext, inputFilename, bgMusicFilename, outputName, subtitleName } = names;
+  const codecs = getOutputCodecs(ext);
+  const graph = buildFilterGraph(plan, { isAudioOnly: codecs.isAudioOnly, bgMusic: !!bgMusicFilename, subtitles: subtitleName });
+  const useScriptFile = plan.length > FILTER_SCRIPT_THRESHOLD;
+
+  const args = ['-y', '-i', inputFilename];
+  if (bgMusicFilename) args.push('-i', bgMusicFilename);
+  args.push(...(useScriptFile ? ['-filter_complex_script', FILTER_SCRIPT_NAME] : ['-filter_complex', graph.filters.join(';')]));
+  if (codecs.video && graph.videoOut) {
+    args.push('-map', graph.videoOut, '-c:v', codecs.video, ...(codecs.video === 'libx264' ? ['-crf', '18', '-preset', 'medium'] : ['-q:v', '2']));
+  }
+  args.push('-map', graph.audioOut, '-c:a', codecs.audio, outputName);
+  // Newlines between chains are allowed in a filter script and keep it readable
+  const scriptLines = graph.filters.map((filter, index) => index < graph.filters.length - 1 ? `${filter};` : filter);
+
+  const lines = [sh.comment(`Process ${inputFilename} to ${outputName} in a single pass (${plan.length} parts)`)];
+  if (useScriptFile) lines.push(sh.writeFile(FILTER_SCRIPT_NAME, scriptLines), '');
+  lines.push(sh.echo('Cutting and encoding...'), sh.command('ffmpeg', args));
+  if (useScriptFile) lines.push(sh.removeFile(FILTER_SCRIPT_NAME));
+  lines.push('', sh.echo(`Done! Saved to ${outputName}`));
+  return finishScript(sh, lines);
+};
+
+/**
+ * Fast rough-cut script: every piece, already widened to keyframes, is
+ * stream-copied and the parts are joined with the concat demuxer. Nothing is
+ * re-encoded except the audio when background music is mixed in.
+ */
+const copyScript = (
+  pieces: SnappedPiece[],
+  sh: ShellDialect,
+  names: { ext: string, inputFilename: string, bgMusicFilename: string, outputName: string }
+): string => {
+  const { ext, inputFilename, bgMusicFilename, outputName } = names;
+  const inSegments = (name: string) => `${SEGMENT_DIR}${sh.pathSeparator}${name}`;
+  const concatFile = inSegments('list.txt');
+  const joinedName = bgMusicFilename ? inSegments(`temp_concat.${ext}`) : outputName;
+
+  const lines = [
+    sh.comment(`Fast copy of ${inputFilename} to ${outputName} (cuts moved to keyframes)`),
+    sh.makeDir(SEGMENT_DIR),
+    sh.echo('Copying segments...'),
+    ''
+  ];
+
+  const partNames = pieces.map((piece, index) => {
+    const partName = `part_${String(index).padStart(4, '0')}.${ext}`;
+    // Seeking before -i lands on the keyframe the piece now starts at
+    const length = Number.isFinite(piece.end) ? ['-t', (piece.end - piece.start).toFixed(4)] : [];
+    lines.push(sh.command('ffmpeg', ['-y', '-ss', piece.start.toFixed(4), '-i', inputFilename, ...length, '-map', '0', '-c', 'copy', '-avoid_negative_ts', 'make_zero', inSegments(partName)]));
+    return partName;
+  });
+
+  lines.push('', sh.writeFile(concatFile, partNames.map(name => `file '${name}'`)), '');
+  lines.push(sh.echo('Joining...'));
+  lines.push(sh.command('ffmpeg', ['-y', '-f', 'concat', '-safe', '0', '-i', concatFile, '-c', 'copy', joinedName]));
+
+  if (bgMusicFilename) {
+    lines.push(sh.command('ffmpeg', [
+      '-y', '-i', joinedName, '-i', bgMusicFilename,
+      '-filter_complex', `[0:a][1:a]amix=inputs=2:duration=first:weights=1 ${BG_MUSIC_WEIGHT}[a]`,
+      '-map', '0:v', '-map', '[a]', '-c:v', 'copy', '-c:a', 'aac', outputName
+    ]));
+  }
+
+  lines.push('', sh.echo(`Done! Saved to ${outputName}`), sh.removeDir(SEGMENT_DIR));
+  return finishScript(sh, lines);
 };
 
 export const generateFfmpegScript = (
   segments: AudioSegment[], 
   filename: string,
-  platform: 'win' | 'unix',
-  config: {
+  platform: ScriptPlatform,
+  config: EditPlanConfig & {
     format: ExportFormat,
-    trimStart: number,
-    trimEnd: number,
-    bgMusicName?: string
+    scriptMode?: ScriptMode,
+    keyframes?: number[] | null, // needed by the 'copy' mode
+    bgMusicName?: string,
+    subtitleName?: string // retimed subtitles next to the script, to burn in
   }
 ): string => {
-  // Filter segments based on trim range and silence
-  const activeSegments = segments.filter(s => {
-    // Is it silent?
-    if (s.isSilent) return false;
-    // Is it completely outside trim range?
-    if (s.end < config.trimStart || s.start > config.trimEnd) return false;
-    return true;
-  }).map(s => {
-    // Clamp to trim range
-    return {
-      start: Math.max(s.start, config.trimStart),
-      end: Math.min(s.end, config.trimEnd),
-      isSilent: false
-    };
-  });
+  // Source pieces in output order (keep ranges, keep margins and pause mode applied)
+  const activeSegments = buildEditPlan(segments, config);
+  if (activeSegments.length === 0) throw new Error('Nothing to export: every part of the media is cut');
+  const sh = SHELL_DIALECTS[platform];
 
+  // Names go into the script raw; the shell dialect quotes them where they are used
   const safeName = filename.replace(/\s+/g, '_').replace(/\.[^/.]+$/, "");
-  const inputFilename = platform === 'unix' ? escapeName(filename, 'unix') : filename;
-  const bgMusicFilename = config.bgMusicName ? (platform === 'unix' ? escapeName(config.bgMusicName, 'unix') : config.bgMusicName) : '';
+  const inputFilename = asLocalPath(filename, sh);
+  const bgMusicFilename = config.bgMusicName ? asLocalPath(config.bgMusicName, sh) : '';
 
   const ext = config.format;
-  const isAudioOnly = ['mp3', 'wav', 'aac'].includes(ext);
-  const outputName = `${safeName}_edited.${ext}`;
-  
-  // Codec selection
-  let videoCodec = "libx264"; 
-  let audioCodec = "aac";
-  
-  if (isAudioOnly) {
-    videoCodec = "null"; // Not used
-    if (ext === 'mp3') audioCodec = 'libmp3lame';
-    if (ext === 'wav') audioCodec = 'pcm_s16le';
-  } else {
-      if (ext === 'avi') videoCodec = 'mpeg4';
-      if (ext === 'mov') videoCodec = 'libx264'; // ensure mov uses x264 usually
+  const outputName = asLocalPath(`${safeName}_edited.${ext}`, sh);
+
+  if (config.scriptMode === 'filtergraph') {
+    return filterGraphScript(activeSegments, sh, { ext, inputFilename, bgMusicFilename, outputName, subtitleName: config.subtitleName });
+  }
+  if (config.scriptMode === 'copy') {
+    if (!config.keyframes) throw new Error('Fast export needs the keyframes of an MP4 or MOV file');
+    const snapped = snapPlanToKeyframes(activeSegments, config.keyframes);
+    // A stream copy cannot change container codecs, so the output keeps the source's
+    const sourceExt = filename.split('.').pop()?.toLowerCase() || 'mp4';
+    const copyOutputName = asLocalPath(`${safeName}_edited.${sourceExt}`, sh);
+    return copyScript(snapped, sh, { ext: sourceExt, inputFilename, bgMusicFilename, outputName: copyOutputName });
   }
 
-  // Common commands
-  const concatFile = platform === 'win' ? 'segments\\list.txt' : 'segments/list.txt';
-  const segmentDir = platform === 'win' ? 'segments\\' : 'segments/';
+  const { isAudioOnly, video, audio: audioCodec } = getOutputCodecs(ext);
+  const videoCodec = video ?? '';
+  // Burning in subtitles takes one more encode after the parts are joined
+  const burnSubtitles = !!config.subtitleName && !isAudioOnly;
 
-  let script = "";
-  
-  if (platform === 'unix') {
-    script += `#!/bin/bash\n\n`;
-    script += `# Process ${filename} to ${outputName}\n`;
-    script += `mkdir -p segments\n`;
-    script += `echo "Extracting valid segments..."\n\n`;
-    
-    let fileList = "";
-    
-    activeSegments.forEach((seg, index) => {
-      const duration = (seg.end - seg.start).toFixed(4);
-      const start = seg.start.toFixed(4);
-      const segName = `part_${String(index).padStart(4, '0')}.${isAudioOnly ? ext : 'mp4'}`;
-      
-      const cmdVideo = isAudioOnly ? '-vn' : `-c:v ${videoCodec} -preset ultrafast`;
-      
-      script += `ffmpeg -y -i "${inputFilename}" -ss ${start} -t ${duration} ${cmdVideo} -c:a ${audioCodec} "${segmentDir}${segName}"\n`;
-      fileList += `file '${segName}'\n`;
-    });
-
-    script += `\necho "${fileList}" > ${concatFile}\n\n`;
-    script += `echo "Concatenating..."\n`;
-    
-    // Concatenate
-    if (config.bgMusicName) {
-       // With BG Music
-       // Using intermediate temp file for concat
-       script += `ffmpeg -y -f concat -safe 0 -i ${concatFile} -c copy "segments/temp_concat.${ext}"\n`;
-       script += `echo "Adding background music (Main 100%, BG 20%)..."\n`;
-       if (!isAudioOnly) {
-           script += `ffmpeg -y -i "segments/temp_concat.${ext}" -i "${bgMusicFilename}" -filter_complex "[0:a][1:a]amix=inputs=2:duration=first:weights=1 0.2[a]" -map 0:v -map "[a]" -c:v copy -c:a ${audioCodec} "${outputName}"\n`;
-       } else {
-           script += `ffmpeg -y -i "segments/temp_concat.${ext}" -i "${bgMusicFilename}" -filter_complex "amix=inputs=2:duration=first:weights=1 0.2" -c:a ${audioCodec} "${outputName}"\n`;
-       }
-       script += `rm "segments/temp_concat.${ext}"\n`;
-    } else {
-       // Simple Concat
-       script += `ffmpeg -y -f concat -safe 0 -i ${concatFile} -c copy "${outputName}"\n`;
-    }
-    
-    script += `\necho "Done! Saved to ${outputName}"\n`;
-    script += `rm -rf segments\n`;
+  const inSegments = (name: string) => `${SEGMENT_DIR}${sh.pathSeparator}${name}`;
+  const concatFile = inSegments('list.txt');
+  const tempConcat = inSegments(`temp_concat.${ext}`);
+  const joinTarget = burnSubtitles ? inSegments(`temp_subs.${ext}`) : outputName;
 
+  const lines = [
+    sh.comment(`Process ${filename} to ${outputName}`),
+    sh.makeDir(SEGMENT_DIR),
+    sh.echo('Extracting valid segments...'),
+    ''
+  ];
+
+  // Parts are always re-encoded to the output's codecs so they join with a stream copy
+  const partNames = activeSegments.map((seg, index) => {
+    const segName = `part_${String(index).padStart(4, '0')}.${isAudioOnly ? ext : 'mp4'}`;
+    const cmdVideo = isAudioOnly ? ['-vn'] : ['-c:v', videoCodec, '-preset', 'ultrafast'];
+    lines.push(sh.command('ffmpeg', [
+      '-y', '-i', inputFilename, '-ss', seg.start.toFixed(4), '-t', (seg.end - seg.start).toFixed(4),
+      ...speedFilters(seg.speed, isAudioOnly), ...cmdVideo, '-c:a', audioCodec, inSegments(segName)
+    ]));
+    return segName;
+  });
+
+  lines.push('', sh.writeFile(concatFile, partNames.map(name => `file '${name}'`)), '');
+  lines.push(sh.echo('Concatenating...'));
+
+  if (bgMusicFilename) {
+    // Joined into a temp file first, then mixed with the music
+    lines.push(sh.command('ffmpeg', ['-y', '-f', 'concat', '-safe', '0', '-i', concatFile, '-c', 'copy', tempConcat]));
+    lines.push(sh.echo(`Adding background music (Main 100%, BG ${Math.round(BG_MUSIC_WEIGHT * 100)}%)...`));
+    const mix = isAudioOnly
+      ? ['-filter_complex', `amix=inputs=2:duration=first:weights=1 ${BG_MUSIC_WEIGHT}`]
+      : ['-filter_complex', `[0:a][1:a]amix=inputs=2:duration=first:weights=1 ${BG_MUSIC_WEIGHT}[a]`, '-map', '0:v', '-map', '[a]', '-c:v', 'copy'];
+    lines.push(sh.command('ffmpeg', ['-y', '-i', tempConcat, '-i', bgMusicFilename, ...mix, '-c:a', audioCodec, joinTarget]));
+    lines.push(sh.removeFile(tempConcat));
   } else {
-    // Windows Batch
-    script += `@echo off\n`;
-    script += `REM Process ${filename} to ${outputName}\n`;
-    script += `mkdir segments\n`;
-    script += `echo Extracting valid segments...\n\n`;
-    
-    let fileList = "";
-    
-    activeSegments.forEach((seg, index) => {
-      const duration = (seg.end - seg.start).toFixed(4);
-      const start = seg.start.toFixed(4);
-      const segName = `part_${String(index).padStart(4, '0')}.${isAudioOnly ? ext : 'mp4'}`;
-      
-      const cmdVideo = isAudioOnly ? '-vn' : `-c:v ${videoCodec} -preset ultrafast`;
-      
-      // Note: Windows batch variable substitution might be an issue with special chars, 
-      // but quoting usually handles standard spaces.
-      script += `ffmpeg -y -i "${filename}" -ss ${start} -t ${duration} ${cmdVideo} -c:a ${audioCodec} "${segmentDir}${segName}"\n`;
-      fileList += `file 'part_${String(index).padStart(4, '0')}.mp4'\n`;
-    });
-
-    script += `\n( \n`;
-    fileList.split('\n').forEach(line => {
-      if(line) script += `echo ${line}\n`;
-    });
-    script += `) > ${concatFile}\n\n`;
-    
-    script += `echo Concatenating...\n`;
-    
-    if (config.bgMusicName) {
-         script += `ffmpeg -y -f concat -safe 0 -i ${concatFile} -c copy "segments\\temp_concat.${ext}"\n`;
-         script += `echo Adding background music (Main 100%%, BG 20%%)...\n`;
-         if (!isAudioOnly) {
-             script += `ffmpeg -y -i "segments\\temp_concat.${ext}" -i "${config.bgMusicName}" -filter_complex "[0:a][1:a]amix=inputs=2:duration=first:weights=1 0.2[a]" -map 0:v -map "[a]" -c:v copy -c:a ${audioCodec} "${outputName}"\n`;
-         } else {
-             script += `ffmpeg -y -i "segments\\temp_concat.${ext}" -i "${config.bgMusicName}" -filter_complex "amix=inputs=2:duration=first:weights=1 0.2" -c:a ${audioCodec} "${outputName}"\n`;
-         }
-         script += `del "segments\\temp_concat.${ext}"\n`;
-    } else {
-         script += `ffmpeg -y -f concat -safe 0 -i ${concatFile} -c copy "${outputName}"\n`;
-    }
+    lines.push(sh.command('ffmpeg', ['-y', '-f', 'concat', '-safe', '0', '-i', concatFile, '-c', 'copy', joinTarget]));
+  }
 
-    script += `echo Done! Saved to ${outputName}\n`;
-    script += `rmdir /s /q segments\n`;
-    script += `pause\n`;
+  if (burnSubtitles) {
+    lines.push(sh.echo('Burning in subtitles...'));
+    lines.push(sh.command('ffmpeg', ['-y', '-i', joinTarget, '-vf', `subtitles=${config.subtitleName}`, '-c:v', videoCodec, '-c:a', 'copy', outputName]));
   }
+  lines.push('', sh.echo(`Done! Saved to ${outputName}`), sh.removeDir(SEGMENT_DIR));
 
-  return script;
-};
\ No newline at end of file
+  return finishScript(sh, lines);
+};
@@ -0,0 +1,234 @@
+import { ChannelLevel, ChannelMode, EnvelopeLevels, RmsEnvelope } from '../types';
+
+// Frame size of the finest level. Every detection window is read back as a
+// whole number of these frames, so keep it small.
+const BASE_HOP_SECONDS = 0.01;
+const MAX_LEVELS = 12;
+
+// Anything that looks enough like an AudioBuffer. The analysis worker has no
+// AudioBuffer, so it wraps the transferred channel arrays in one of these.
+export type PcmSource = Pick<AudioBuffer, 'sampleRate' | 'duration' | 'length' | 'numberOfChannels' | 'getChannelData'>;
+
+export const toPcmSource = (channels: Float32Array[], sampleRate: number): PcmSource => {
+  const length = channels[0]?.length ?? 0;
+  return {
+    sampleRate,
+    length,
+    duration: length / sampleRate,
+    numberOfChannels: channels.length,
+    getChannelData: (channel: number) => channels[channel]
+  };
+};
+
+export const getHopSeconds = (envelope: RmsEnvelope) => envelope.hopSamples / envelope.sampleRate;
+
+// Coarser levels combine pairs of frames from the level below (averaged for
+// mean square, max for peaks)
+const buildLevels = (
+  base: Float32Array,
+  combine: (a: number, b: number) => number = (a, b) => (a + b) / 2
+): EnvelopeLevels => {
+  const levels = [base];
+  while (levels.length < MAX_LEVELS && levels[levels.length - 1].length > 1) {
+    const prev = levels[levels.length - 1];
+    const next = new Float32Array(Math.ceil(prev.length / 2));
+    for (let i = 0; i < next.length; i++) {
+      const a = prev[i * 2];
+      const b = i * 2 + 1 < prev.length ? prev[i * 2 + 1] : a;
+      next[i] = combine(a, b);
+    }
+    levels.push(next);
+  }
+  return levels;
+};
+
+export const buildRmsEnvelope = (
+  audioBuffer: PcmSource,
+  onProgress?: (fraction: number) => void
+): RmsEnvelope => {
+  const channelCount = audioBuffer.numberOfChannels;
+  const rawData: Float32Array[] = [];
+  for (let c = 0; c < channelCount; c++) {
+    rawData.push(audioBuffer.getChannelData(c));
+  }
+  const samples = audioBuffer.length;
+  const sampleRate = audioBuffer.sampleRate;
+  const hopSamples = Math.max(1, Math.round(sampleRate * BASE_HOP_SECONDS));
+
+  // Level 0: mean square of every hop, per channel and for the mixdown
+  const frameCount = Math.ceil(samples / hopSamples);
+  const channelBase = rawData.map(() => new Float32Array(frameCount));
+  const mixBase = channelCount > 1 ? new Float32Array(frameCount) : channelBase[0];
+  const peakBase = new Float32Array(frameCount);
+  const reportEvery = Math.max(1, Math.floor(frameCount / 100));
+
+  for (let f = 0; f < frameCount; f++) {
+    if (onProgress && f % reportEvery === 0) onProgress(f / frameCount);
+
+    const start = f * hopSamples;
+    const end = Math.min(start + hopSamples, samples);
+    const count = end - start;
+
+    for (let c = 0; c < channelCount; c++) {
+      const data = rawData[c];
+      let sum = 0;
+      let peak = peakBase[f];
+      for (let j = start; j < end; j++) {
+        sum += data[j] * data[j];
+        const abs = data[j] < 0 ? -data[j] : data[j];
+        if (abs > peak) peak = abs;
+      }
+      channelBase[c][f] = sum / count;
+      peakBase[f] = peak;
+    }
+
+    if (channelCount > 1) {
+      let sum = 0;
+      for (let j = start; j < end; j++) {
+        let mixed = 0;
+        for (let c = 0; c < channelCount; c++) {
+          mixed += rawData[c][j];
+        }
+        mixed /= channelCount;
+        sum += mixed * mixed;
+      }
+      mixBase[f] = sum / count;
+    }
+  }
+
+  const channels = channelBase.map(base => buildLevels(base));
+  // Mono files share the one set of levels
+  const mix = channelCount > 1 ? buildLevels(mixBase) : channels[0];
+  const peaks = buildLevels(peakBase, Math.max);
+  onProgress?.(1);
+
+  return {
+    sampleRate,
+    duration: audioBuffer.duration,
+    hopSamples,
+    mix,
+    channels,
+    peaks
+  };
+};
+
+// All buffers backing the envelope, without duplicates (mono shares mix and channel 0)
+export const getEnvelopeBuffers = (envelope: RmsEnvelope): ArrayBuffer[] => {
+  const buffers = new Set<ArrayBuffer>();
+  [envelope.mix, envelope.peaks, ...envelope.channels].forEach(levels => {
+    levels.forEach(level => buffers.add(level.buffer as ArrayBuffer));
+  });
+  return Array.from(buffers);
+};
+
+const readLevels = (
+  levels: EnvelopeLevels,
+  framesPerWindow: number
+): Float32Array => {
+  // Largest power of two dividing the window picks the level
+  let level = 0;
+  while (
+    level + 1 < levels.length &&
+    framesPerWindow % Math.pow(2, level + 1) === 0
+  ) {
+    level++;
+  }
+
+  const source = levels[level];
+  const step = framesPerWindow / Math.pow(2, level);
+  const count = Math.ceil(source.length / step);
+  const rms = new Float32Array(count);
+
+  for (let w = 0; w < count; w++) {
+    const start = w * step;
+    const end = Math.min(start + step, source.length);
+    let sum = 0;
+    for (let j = start; j < end; j++) {
+      sum += source[j];
+    }
+    rms[w] = Math.sqrt(sum / (end - start));
+  }
+
+  return rms;
+};
+
+/**
+ * Returns the RMS of consecutive windows of (roughly) `windowSeconds`,
+ * read from the coarsest level that still lines up with the window.
+ * The returned `windowSeconds` is the exact size that was used.
+ */
+export const readEnvelope = (
+  envelope: RmsEnvelope,
+  windowSeconds: number,
+  channelMode: ChannelMode = 'mix',
+  channelIndex: number = 0
+): { rms: Float32Array; windowSeconds: number } => {
+  const hop = getHopSeconds(envelope);
+  const framesPerWindow = Math.max(1, Math.round(windowSeconds / hop));
+  const exactWindow = framesPerWindow * hop;
+
+  if (channelMode === 'channel') {
+    const levels = envelope.channels[Math.min(channelIndex, envelope.channels.length - 1)];
+    return { rms: readLevels(levels, framesPerWindow), windowSeconds: exactWindow };
+  }
+
+  if (channelMode === 'loudest' && envelope.channels.length > 1) {
+    const perChannel = envelope.channels.map(levels => readLevels(levels, framesPerWindow));
+    const rms = perChannel[0].slice();
+    for (let c = 1; c < perChannel.length; c++) {
+      const data = perChannel[c];
+      for (let w = 0; w < rms.length; w++) {
+        if (data[w] > rms[w]) rms[w] = data[w];
+      }
+    }
+    return { rms, windowSeconds: exactWindow };
+  }
+
+  return { rms: readLevels(envelope.mix, framesPerWindow), windowSeconds: exactWindow };
+};
+
+export const amplitudeToDb = (amplitude: number) => 20 * Math.log10(Math.max(amplitude, 1e-6));
+
+// Loud and quiet level of every channel, for the channel picker meters
+export const measureChannelLevels = (envelope: RmsEnvelope): ChannelLevel[] => {
+  return envelope.channels.map(levels => {
+    const rms = readLevels(levels, Math.max(1, Math.round(0.05 / getHopSeconds(envelope))));
+    const sorted = Array.from(rms).sort((a, b) => a - b);
+    const at = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))] ?? 0;
+    return {
+      levelDb: amplitudeToDb(at(0.9)),
+      floorDb: amplitudeToDb(at(0.1))
+    };
+  });
+};
+
+/**
+ * Peak and RMS (mixdown) over an arbitrary time range, read from the
+ * coarsest level whose frames still fit inside it. Used to draw one
+ * waveform column per pixel at any zoom level.
+ */
+export const readEnvelopeRange = (
+  envelope: RmsEnvelope,
+  start: number,
+  end: number
+): { peak: number; rms: number } => {
+  const hop = getHopSeconds(envelope);
+  let level = 0;
+  while (level + 1 < envelope.mix.length && hop * Math.pow(2, level + 1) <= end - start) {
+    level++;
+  }
+
+  const frameSeconds = hop * Math.pow(2, level);
+  const mix = envelope.mix[level];
+  const peaks = envelope.peaks[level];
+  const from = Math.max(0, Math.floor(start / frameSeconds));
+  const to = Math.min(mix.length, Math.max(from + 1, Math.ceil(end / frameSeconds)));
+
+  let peak = 0;
+  let sum = 0;
+  for (let i = from; i < to; i++) {
+    if (peaks[i] > peak) peak = peaks[i];
+    sum += mix[i];
+  }
+  return { peak, rms: to > from ? Math.sqrt(sum / (to - from)) : 0 };
+};
@@ -0,0 +1,168 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { EditPiece, getPieceDuration, getPlanDuration } from './editTimeline';
+import { BG_MUSIC_WEIGHT } from './filterGraph';
+
+export type AudioExportFormat = 'wav' | 'mp3';
+
+export const isInstantAudioFormat = (format: string): format is AudioExportFormat =>
+  format === 'wav' || format === 'mp3';
+
+// Length of the fade out / fade in on either side of every join
+const JOIN_FADE = 0.008;
+const MP3_KBPS = 192;
+// MP3 frames are 1152 samples; encode this many frames between yields to the UI
+const MP3_BLOCK = 1152 * 256;
+
+export interface AudioRenderOptions {
+  format: AudioExportFormat;
+  bgMusic: AudioBuffer | null;
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void; // 0..1
+}
+
+const abortError = () => new DOMException('Export cancelled', 'AbortError');
+
+/**
+ * Plays every piece of the edit plan back to back into an OfflineAudioContext.
+ * Sped-up pieces use playbackRate, which shifts pitch unlike ffmpeg's atempo;
+ * they are shortened pauses, so there is next to nothing to hear. Music is
+ * mixed like amix with its default normalization, so levels match the scripts.
+ */
+const renderPlan = (source: AudioBuffer, plan: EditPiece[], channels: number, bgMusic: AudioBuffer | null) => {
+  const duration = getPlanDuration(plan);
+  const length = Math.max(1, Math.ceil(duration * source.sampleRate));
+  const context = new OfflineAudioContext(channels, length, source.sampleRate);
+
+  const mainBus = context.createGain();
+  mainBus.gain.value = 1 / (1 + BG_MUSIC_WEIGHT * (bgMusic ? 1 : 0));
+  mainBus.connect(context.destination);
+
+  let outputTime = 0;
+  plan.forEach((piece, index) => {
+    const pieceDuration = getPieceDuration(piece);
+    const fade = Math.min(JOIN_FADE, pieceDuration / 4);
+    const node = context.createBufferSource();
+    node.buffer = source;
+    node.playbackRate.value = piece.speed;
+
+    const gain = context.createGain();
+    const end = outputTime + pieceDuration;
+    if (index > 0) {
+      gain.gain.setValueAtTime(0, outputTime);
+      gain.gain.linearRampToValueAtTime(1, outputTime + fade);
+    }
+    if (index < plan.length - 1) {
+      gain.gain.setValueAtTime(1, end - fade);
+      gain.gain.linearRampToValueAtTime(0, end);
+    }
+
+    node.connect(gain).connect(mainBus);
+    node.start(outputTime, piece.start, piece.end - piece.start);
+    outputTime = end;
+  });
+
+  if (bgMusic) {
+    const music = context.createBufferSource();
+    music.buffer = bgMusic;
+    const gain = context.createGain();
+    gain.gain.value = BG_MUSIC_WEIGHT / (1 + BG_MUSIC_WEIGHT);
+    music.connect(gain).connect(context.destination);
+    music.start(0);
+  }
+
+  return context.startRendering();
+};
+
+const encodeWav = (buffer: AudioBuffer): Blob => {
+  const channels = buffer.numberOfChannels;
+  const dataSize = buffer.length * channels * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const data = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+  let offset = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let c = 0; c < channels; c++) {
+      const sample = Math.max(-1, Math.min(1, data[c][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+const toInt16 = (samples: Float32Array) => {
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    out[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return out;
+};
+
+// Encodes in blocks, yielding between them so progress shows and cancel works
+const encodeMp3 = async (buffer: AudioBuffer, signal?: AbortSignal, onProgress?: (progress: number) => void) => {
+  const stereo = buffer.numberOfChannels > 1;
+  const encoder = new Mp3Encoder(stereo ? 2 : 1, buffer.sampleRate, MP3_KBPS);
+  const left = buffer.getChannelData(0);
+  const right = stereo ? buffer.getChannelData(1) : null;
+  const chunks: Uint8Array[] = [];
+
+  for (let start = 0; start < buffer.length; start += MP3_BLOCK) {
+    if (signal?.aborted) throw abortError();
+    const end = Math.min(buffer.length, start + MP3_BLOCK);
+    const leftBlock = toInt16(left.subarray(start, end));
+    const chunk = right
+      ? encoder.encodeBuffer(leftBlock, toInt16(right.subarray(start, end)))
+      : encoder.encodeBuffer(leftBlock);
+    if (chunk.length > 0) chunks.push(chunk);
+    onProgress?.(end / buffer.length);
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) chunks.push(tail);
+  return new Blob(chunks, { type: 'audio/mpeg' });
+};
+
+/**
+ * Renders the edited audio straight from the decoded project audio, with a
+ * short fade on both sides of every join and the background music mixed in.
+ * No ffmpeg involved, so it takes seconds even for long recordings.
+ */
+export const renderAudioExport = async (
+  source: AudioBuffer,
+  plan: EditPiece[],
+  options: AudioRenderOptions
+): Promise<Blob> => {
+  const { format, bgMusic, signal, onProgress } = options;
+  if (plan.length === 0) throw new Error('Nothing to export: every part of the media is cut');
+  if (signal?.aborted) throw abortError();
+
+  // The MP3 encoder takes mono or stereo; more channels are downmixed by the context
+  const channels = format === 'mp3' ? Math.min(2, source.numberOfChannels) : source.numberOfChannels;
+  onProgress?.(0);
+  const rendered = await renderPlan(source, plan, channels, bgMusic);
+  if (signal?.aborted) throw abortError();
+
+  if (format === 'wav') {
+    onProgress?.(1);
+    return encodeWav(rendered);
+  }
+  return encodeMp3(rendered, signal, onProgress);
+};
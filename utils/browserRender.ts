@@ -0,0 +1,133 @@
+import { FFmpeg, FFFSType } from '@ffmpeg/ffmpeg';
+// Single-threaded core: works without cross-origin isolation headers. Bundled
+// with the app, so rendering works offline and never loads code from a CDN.
+import coreURL from '@ffmpeg/core?url';
+import wasmURL from '@ffmpeg/core/wasm?url';
+import { ExportFormat } from '../types';
+import { EditPiece, getPlanDuration } from './editTimeline';
+import { buildFilterGraph, getOutputCodecs } from './filterGraph';
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  avi: 'video/x-msvideo',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  aac: 'audio/aac'
+};
+
+export type RenderStage = 'loading' | 'rendering';
+
+export interface RenderProgress {
+  stage: RenderStage;
+  progress: number; // 0..1 of the output duration, 0 while loading
+}
+
+export interface RenderOptions {
+  format: ExportFormat;
+  bgMusicFile: File | null;
+  signal?: AbortSignal;
+  onProgress?: (progress: RenderProgress) => void;
+}
+
+const abortError = () => new DOMException('Render cancelled', 'AbortError');
+
+// The core is ~30 MB, so it is loaded once and kept for later renders
+let ffmpegPromise: Promise<FFmpeg> | null = null;
+
+const loadFFmpeg = (): Promise<FFmpeg> => {
+  if (!ffmpegPromise) {
+    ffmpegPromise = (async () => {
+      const ffmpeg = new FFmpeg();
+      await ffmpeg.load({ coreURL, wasmURL });
+      return ffmpeg;
+    })();
+    ffmpegPromise.catch(() => {
+      ffmpegPromise = null;
+    });
+  }
+  return ffmpegPromise;
+};
+
+// Cancelling kills the worker, so the next render has to load a fresh core
+const resetFFmpeg = (ffmpeg: FFmpeg) => {
+  ffmpeg.terminate();
+  ffmpegPromise = null;
+};
+
+// "time=00:01:23.45" in ffmpeg's status lines, as seconds
+const parseLogTime = (message: string): number | null => {
+  const match = /time=\s*(\d+):(\d+):(\d+(?:\.\d+)?)/.exec(message);
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+};
+
+/**
+ * Renders the edit plan to a finished file inside the browser with
+ * ffmpeg.wasm. Input files are mounted read-only rather than copied into
+ * memory, and the same filter graph as the scripts cuts, speeds up and
+ * joins the pieces and mixes in the background music.
+ */
+export const renderInBrowser = async (file: File, plan: EditPiece[], options: RenderOptions): Promise<Blob> => {
+  const { format, bgMusicFile, signal, onProgress } = options;
+  if (signal?.aborted) throw abortError();
+
+  const codecs = getOutputCodecs(format);
+  const graph = buildFilterGraph(plan, { isAudioOnly: codecs.isAudioOnly, bgMusic: !!bgMusicFile });
+  const outputDuration = getPlanDuration(plan);
+  const outputName = `output.${format}`;
+
+  let ffmpeg: FFmpeg | null = null;
+  let cancelled = false;
+  // Cancelling while the core loads stops waiting for it; it keeps loading for the next render
+  let stopLoading: (() => void) | null = null;
+  const handleAbort = () => {
+    cancelled = true;
+    stopLoading?.();
+    if (ffmpeg) resetFFmpeg(ffmpeg);
+  };
+  signal?.addEventListener('abort', handleAbort, { once: true });
+
+  const handleLog = ({ message }: { message: string }) => {
+    const time = parseLogTime(message);
+    if (time !== null && outputDuration > 0) {
+      onProgress?.({ stage: 'rendering', progress: Math.min(1, time / outputDuration) });
+    }
+  };
+
+  const files = bgMusicFile ? [file, bgMusicFile] : [file];
+  const args = ['-i', `/input/${file.name}`];
+  if (bgMusicFile) args.push('-i', `/input/${bgMusicFile.name}`);
+  args.push('-filter_complex', graph.filters.join(';'));
+  if (graph.videoOut) args.push('-map', graph.videoOut, '-c:v', codecs.video!, '-preset', 'ultrafast');
+  args.push('-map', graph.audioOut, '-c:a', codecs.audio, '-y', outputName);
+
+  try {
+    onProgress?.({ stage: 'loading', progress: 0 });
+    ffmpeg = await new Promise<FFmpeg>((resolve, reject) => {
+      stopLoading = () => reject(abortError());
+      loadFFmpeg().then(resolve, reject);
+    });
+    if (cancelled) throw abortError();
+    await ffmpeg.createDir('/input');
+    await ffmpeg.mount(FFFSType.WORKERFS, { files }, '/input');
+    ffmpeg.on('log', handleLog);
+
+    onProgress?.({ stage: 'rendering', progress: 0 });
+    const exitCode = await ffmpeg.exec(args);
+    if (exitCode !== 0) throw new Error(`ffmpeg exited with code ${exitCode}`);
+
+    const data = await ffmpeg.readFile(outputName);
+    if (typeof data === 'string') throw new Error('Unexpected text output from ffmpeg');
+    return new Blob([data], { type: MIME_TYPES[format] });
+  } catch (error) {
+    throw cancelled ? abortError() : error;
+  } finally {
+    signal?.removeEventListener('abort', handleAbort);
+    if (ffmpeg && !cancelled) {
+      ffmpeg.off('log', handleLog);
+      await Promise.allSettled([ffmpeg.deleteFile(outputName), ffmpeg.unmount('/input')]);
+      await ffmpeg.deleteDir('/input').catch(() => {});
+    }
+  }
+};
@@ -0,0 +1,106 @@
+import { ChannelMode, RmsEnvelope } from '../types';
+import { amplitudeToDb, readEnvelope } from './audioEnvelope';
+
+export interface Calibration {
+  noiseFloorDb: number;
+  speechDb: number;
+  thresholdDb: number;
+  minSilenceDuration: number;
+}
+
+const WINDOW_SECONDS = 0.05;
+const HISTOGRAM_MIN_DB = -100;
+const HISTOGRAM_MAX_DB = 0;
+// Windows below this are digital silence (muted sections, padding) and
+// would drag the floor estimate down to something no microphone produces
+const DIGITAL_SILENCE_DB = -90;
+
+// Same range and steps as the sliders, so suggestions land on a slider position
+const THRESHOLD_RANGE: [number, number] = [-60, -10];
+const MIN_SILENCE_RANGE: [number, number] = [0.1, 2.0];
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.max(min, Math.min(max, value));
+
+// Index of the tallest bin in [from, to)
+const peakBin = (histogram: number[], from: number, to: number) => {
+  let best = from;
+  for (let i = from; i < to; i++) {
+    if (histogram[i] > histogram[best]) best = i;
+  }
+  return best;
+};
+
+/**
+ * Estimates the noise floor and speech level from a loudness histogram of
+ * 50ms windows and derives detectSilence parameters from them. Speech and
+ * room tone usually form two humps in the histogram; the threshold sits a
+ * third of the way from the floor hump up to the speech hump.
+ */
+export const calibrateThreshold = (
+  envelope: RmsEnvelope,
+  channelMode: ChannelMode,
+  channelIndex: number
+): Calibration | null => {
+  const { rms, windowSeconds } = readEnvelope(envelope, WINDOW_SECONDS, channelMode, channelIndex);
+
+  const binCount = HISTOGRAM_MAX_DB - HISTOGRAM_MIN_DB;
+  const raw = new Array(binCount).fill(0);
+  for (let i = 0; i < rms.length; i++) {
+    const db = amplitudeToDb(rms[i]);
+    if (db < DIGITAL_SILENCE_DB) continue;
+    const bin = Math.min(binCount - 1, Math.max(0, Math.floor(db - HISTOGRAM_MIN_DB)));
+    raw[bin]++;
+  }
+
+  const total = raw.reduce((sum, n) => sum + n, 0);
+  if (total === 0) return null;
+
+  // Light smoothing so single-bin spikes don't win
+  const histogram = raw.map((_, i) => {
+    let sum = 0;
+    for (let j = i - 2; j <= i + 2; j++) {
+      if (j >= 0 && j < binCount) sum += raw[j];
+    }
+    return sum / 5;
+  });
+
+  // Median bin splits the histogram into a quiet half and a loud half
+  let seen = 0;
+  let medianBin = 0;
+  for (; medianBin < binCount; medianBin++) {
+    seen += raw[medianBin];
+    if (seen >= total / 2) break;
+  }
+
+  const floorBin = peakBin(histogram, 0, medianBin + 1);
+  const speechBin = peakBin(histogram, medianBin, binCount);
+  const noiseFloorDb = floorBin + HISTOGRAM_MIN_DB + 0.5;
+  const speechDb = Math.max(speechBin + HISTOGRAM_MIN_DB + 0.5, noiseFloorDb);
+
+  // Barely any contrast: stay just above the floor rather than cutting speech
+  const spread = speechDb - noiseFloorDb;
+  const thresholdDb = Math.round(clamp(
+    spread < 6 ? noiseFloorDb + 3 : noiseFloorDb + spread / 3,
+    THRESHOLD_RANGE
+  ));
+
+  // Pause lengths at that threshold; gaps shorter than ~60% of the typical
+  // pause are breaths between words and should stay
+  const threshold = Math.pow(10, thresholdDb / 20);
+  const pauses: number[] = [];
+  let run = 0;
+  for (let i = 0; i <= rms.length; i++) {
+    if (i < rms.length && rms[i] < threshold) {
+      run++;
+    } else if (run > 0) {
+      const length = run * windowSeconds;
+      if (length >= 0.1) pauses.push(length);
+      run = 0;
+    }
+  }
+  pauses.sort((a, b) => a - b);
+  const typicalPause = pauses.length > 0 ? pauses[Math.floor(pauses.length / 2)] : 0.8;
+  const minSilenceDuration = Math.round(clamp(typicalPause * 0.6, MIN_SILENCE_RANGE) * 10) / 10;
+
+  return { noiseFloorDb, speechDb, thresholdDb, minSilenceDuration };
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { AudioSegment } from '../types';
+import { buildEditPlan, outputToSourceTime, sourceToOutputTime } from './editTimeline';
+
+// Speech, a pause that gets removed, speech, then speech up to 20 s
+const SEGMENTS: AudioSegment[] = [
+  { start: 0, end: 2, isSilent: false },
+  { start: 2, end: 3, isSilent: true },
+  { start: 3, end: 20, isSilent: false }
+];
+
+const planFor = (ranges: { start: number; end: number }[]) =>
+  buildEditPlan(SEGMENTS, { ranges, pauseMode: 'remove', pauseLength: 0, pauseSpeed: 1 });
+
+describe('sourceToOutputTime', () => {
+  it('maps times in source order', () => {
+    const plan = planFor([{ start: 0, end: 20 }]);
+    expect(sourceToOutputTime(plan, 1)).toBe(1);
+    expect(sourceToOutputTime(plan, 2.5)).toBe(2);
+    expect(sourceToOutputTime(plan, 4)).toBe(3);
+    expect(sourceToOutputTime(plan, 25)).toBe(19);
+  });
+
+  it('maps times in keep ranges played in reversed order', () => {
+    const plan = planFor([{ start: 10, end: 20 }, { start: 0, end: 5 }]);
+    expect(sourceToOutputTime(plan, 15)).toBe(5);
+    expect(sourceToOutputTime(plan, 1)).toBe(11);
+    expect(sourceToOutputTime(plan, 3)).toBe(12);
+    // Removed pause inside the later range continues with that range
+    expect(sourceToOutputTime(plan, 2.5)).toBe(12);
+    // Outside every range: the next range in source order
+    expect(sourceToOutputTime(plan, 7)).toBe(0);
+  });
+
+  it('is inverted by outputToSourceTime inside pieces', () => {
+    const plan = planFor([{ start: 10, end: 20 }, { start: 0, end: 5 }]);
+    [0.5, 4, 11, 14].forEach(source => {
+      expect(outputToSourceTime(plan, sourceToOutputTime(plan, source))).toBeCloseTo(source);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { AudioSegment, KeepRange, PauseMode } from '../types';
+
+// One continuous stretch of source media in the output
+export interface EditPiece {
+  start: number; // source time
+  end: number; // source time
+  speed: number; // playback speed, 1 = unchanged
+  outputStart: number; // where the piece starts in the edited output
+}
+
+export interface EditPlanConfig {
+  ranges: Pick<KeepRange, 'start' | 'end'>[]; // in output order
+  pauseMode: PauseMode;
+  pauseLength: number; // 'shorten': seconds each pause is cut down to
+  pauseSpeed: number; // 'speedup': playback speed inside pauses
+}
+
+/**
+ * Turns segments into the list of source pieces that make up the output,
+ * in output order: every keep range in list order, each one in source order
+ * inside. Kept segments pass through; silences are dropped,
+ * shortened (keeping half the target length at each end, next to the speech)
+ * or sped up depending on the pause mode. Touching pieces at the same speed
+ * are merged so each piece is one cut in the export.
+ */
+export const buildEditPlan = (segments: AudioSegment[], config: EditPlanConfig): EditPiece[] => {
+  const raw: { start: number; end: number; speed: number }[] = [];
+
+  config.ranges.forEach(range => segments.forEach(seg => {
+    const start = Math.max(seg.start, range.start);
+    const end = Math.min(seg.end, range.end);
+    if (end <= start) return;
+
+    if (!seg.isSilent) {
+      raw.push({ start, end, speed: 1 });
+      return;
+    }
+
+    if (config.pauseMode === 'shorten') {
+      const half = Math.max(0, config.pauseLength) / 2;
+      if (end - start <= half * 2) {
+        raw.push({ start, end, speed: 1 });
+      } else if (half > 0) {
+        raw.push({ start, end: start + half, speed: 1 });
+        raw.push({ start: end - half, end, speed: 1 });
+      }
+    } else if (config.pauseMode === 'speedup' && config.pauseSpeed > 0) {
+      raw.push({ start, end, speed: config.pauseSpeed });
+    }
+  }));
+
+  const plan: EditPiece[] = [];
+  let outputTime = 0;
+  raw.forEach(piece => {
+    const last = plan[plan.length - 1];
+    // Only pieces continuing where the last one stopped; a reordered range starts a new cut
+    if (last && last.speed === piece.speed && Math.abs(piece.start - last.end) < 1e-6) {
+      outputTime -= (last.end - last.start) / last.speed;
+      last.end = Math.max(last.end, piece.end);
+      outputTime += (last.end - last.start) / last.speed;
+      return;
+    }
+    plan.push({ ...piece, outputStart: outputTime });
+    outputTime += (piece.end - piece.start) / piece.speed;
+  });
+
+  return plan;
+};
+
+export const getPieceDuration = (piece: EditPiece) => (piece.end - piece.start) / piece.speed;
+
+export const getPlanDuration = (plan: EditPiece[]) => {
+  const last = plan[plan.length - 1];
+  return last ? last.outputStart + getPieceDuration(last) : 0;
+};
+
+// Piece playing at source time `time`, if any
+export const findPieceAt = (plan: EditPiece[], time: number): EditPiece | undefined =>
+  plan.find(p => time >= p.start && time < p.end);
+
+// First piece starting at or after source time `time` (and before `limit`)
+export const findNextPiece = (plan: EditPiece[], time: number, limit = Infinity): EditPiece | undefined =>
+  plan.find(p => p.start >= time && p.start < limit);
+
+// Splits the plan into runs of pieces in source order. Each keep range is
+// in source order inside, so a reordered range starts a new run.
+const getSourceRuns = (plan: EditPiece[]): EditPiece[][] => {
+  const runs: EditPiece[][] = [];
+  plan.forEach(piece => {
+    const run = runs[runs.length - 1];
+    if (run && piece.start >= run[run.length - 1].end - 1e-6) run.push(piece);
+    else runs.push([piece]);
+  });
+  return runs;
+};
+
+// Piece with the earliest source start after `time`
+const findNextInSource = (pieces: EditPiece[], time: number): EditPiece | undefined =>
+  pieces.reduce<EditPiece | undefined>((next, p) => (p.start > time && (!next || p.start < next.start) ? p : next), undefined);
+
+/**
+ * Maps a source time to output time. Times inside removed material map to
+ * the point where the output continues: the next piece of the same keep
+ * range, or else the next piece in source order. Ranges can play in any
+ * order, so this never assumes the plan itself is in source order.
+ */
+export const sourceToOutputTime = (plan: EditPiece[], time: number): number => {
+  const piece = findPieceAt(plan, time);
+  if (piece) return piece.outputStart + (time - piece.start) / piece.speed;
+
+  const run = getSourceRuns(plan).find(r => time >= r[0].start && time < r[r.length - 1].end);
+  const next = findNextInSource(run ?? plan, time);
+  return next ? next.outputStart : getPlanDuration(plan);
+};
+
+export const outputToSourceTime = (plan: EditPiece[], outputTime: number): number => {
+  if (plan.length === 0) return 0;
+  for (const piece of plan) {
+    const duration = getPieceDuration(piece);
+    if (outputTime < piece.outputStart + duration) {
+      return piece.start + Math.max(0, outputTime - piece.outputStart) * piece.speed;
+    }
+  }
+  return plan[plan.length - 1].end;
+};
@@ -0,0 +1,94 @@
+import { ExportFormat } from '../types';
+import { EditPiece } from './editTimeline';
+
+// Background music is mixed under the edited audio at this weight
+export const BG_MUSIC_WEIGHT = 0.2;
+
+// atempo only accepts 0.5-2.0 per instance on older ffmpeg builds, so chain it
+export const atempoChain = (speed: number): string => {
+  const filters: string[] = [];
+  let remaining = speed;
+  while (remaining > 2) {
+    filters.push('atempo=2.0');
+    remaining /= 2;
+  }
+  while (remaining < 0.5) {
+    filters.push('atempo=0.5');
+    remaining /= 0.5;
+  }
+  filters.push(`atempo=${remaining.toFixed(4)}`);
+  return filters.join(',');
+};
+
+export interface OutputCodecs {
+  isAudioOnly: boolean;
+  video: string | null; // null for audio-only formats
+  audio: string;
+}
+
+export const isAudioOnlyFormat = (format: ExportFormat) => ['mp3', 'wav', 'aac'].includes(format);
+
+// Encoders used for each output format, shared by the scripts and the in-browser render
+export const getOutputCodecs = (format: ExportFormat): OutputCodecs => {
+  if (isAudioOnlyFormat(format)) {
+    const audio = format === 'mp3' ? 'libmp3lame' : format === 'wav' ? 'pcm_s16le' : 'aac';
+    return { isAudioOnly: true, video: null, audio };
+  }
+  return { isAudioOnly: false, video: format === 'avi' ? 'mpeg4' : 'libx264', audio: 'aac' };
+};
+
+export interface FilterGraph {
+  filters: string[]; // one filter chain each, joined with ';' for -filter_complex
+  videoOut: string | null; // output label to -map, null for audio-only
+  audioOut: string;
+}
+
+/**
+ * Builds a single filter graph that cuts every piece of the edit plan out of
+ * input 0 with trim/atrim, applies its speed, and concatenates them in output
+ * order. With `bgMusic` set, input 1 is mixed under the result; `subtitles`
+ * names a subtitle file (already on output time) to burn into the video.
+ */
+export const buildFilterGraph = (
+  plan: EditPiece[],
+  options: { isAudioOnly: boolean; bgMusic: boolean; subtitles?: string }
+): FilterGraph => {
+  if (plan.length === 0) throw new Error('Nothing to export: every part of the media is cut');
+
+  const filters: string[] = [];
+  const concatInputs: string[] = [];
+
+  plan.forEach((piece, index) => {
+    const start = piece.start.toFixed(4);
+    const end = piece.end.toFixed(4);
+    const spedUp = piece.speed !== 1;
+
+    if (!options.isAudioOnly) {
+      const setpts = spedUp ? `setpts=(PTS-STARTPTS)/${piece.speed}` : 'setpts=PTS-STARTPTS';
+      filters.push(`[0:v]trim=start=${start}:end=${end},${setpts}[v${index}]`);
+      concatInputs.push(`[v${index}]`);
+    }
+    const tempo = spedUp ? `,${atempoChain(piece.speed)}` : '';
+    filters.push(`[0:a]atrim=start=${start}:end=${end},asetpts=PTS-STARTPTS${tempo}[a${index}]`);
+    concatInputs.push(`[a${index}]`);
+  });
+
+  const video = options.isAudioOnly ? 0 : 1;
+  const concatOutputs = options.isAudioOnly ? '[cat_a]' : '[vout][cat_a]';
+  filters.push(`${concatInputs.join('')}concat=n=${plan.length}:v=${video}:a=1${concatOutputs}`);
+
+  if (options.bgMusic) {
+    filters.push(`[cat_a][1:a]amix=inputs=2:duration=first:weights=1 ${BG_MUSIC_WEIGHT}[aout]`);
+  } else {
+    filters.push('[cat_a]anull[aout]');
+  }
+
+  const burnSubtitles = !!options.subtitles && !options.isAudioOnly;
+  if (burnSubtitles) filters.push(`[vout]subtitles=${options.subtitles}[vsub]`);
+
+  return {
+    filters,
+    videoOut: options.isAudioOnly ? null : burnSubtitles ? '[vsub]' : '[vout]',
+    audioOut: '[aout]'
+  };
+};
@@ -0,0 +1,122 @@
+// Most thumbnails kept in memory; the oldest are dropped first
+const MAX_CACHED_FRAMES = 600;
+
+export interface FrameGrabber {
+  // Resolves with the video's width / height once metadata is loaded
+  ready: Promise<number>;
+  // Cached thumbnail for a time, if it has been grabbed already
+  getFrame: (time: number) => HTMLCanvasElement | undefined;
+  // Replaces the queue of wanted frames; stale requests from an earlier view are dropped
+  request: (times: number[]) => void;
+  // Called after every newly grabbed frame
+  onFrame: (() => void) | null;
+  dispose: () => void;
+}
+
+const toKey = (time: number) => Math.round(time * 1000);
+
+/**
+ * Grabs thumbnails from a video file with an offscreen <video> element,
+ * seeking one frame at a time and copying each into a small canvas.
+ */
+export const createFrameGrabber = (file: File, frameHeight: number): FrameGrabber => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.playsInline = true;
+  video.src = url;
+
+  const cache = new Map<number, HTMLCanvasElement>();
+  let queue: number[] = [];
+  let busy = false;
+  let disposed = false;
+  let frameWidth = 0;
+
+  const ready = new Promise<number>((resolve, reject) => {
+    video.addEventListener('loadedmetadata', () => {
+      const aspect = video.videoWidth && video.videoHeight ? video.videoWidth / video.videoHeight : 16 / 9;
+      frameWidth = Math.max(1, Math.round(frameHeight * aspect));
+      resolve(aspect);
+    }, { once: true });
+    video.addEventListener('error', () => reject(new Error('Could not load video for thumbnails')), { once: true });
+  });
+
+  const seek = (time: number) => new Promise<void>((resolve, reject) => {
+    const handleSeeked = () => {
+      video.removeEventListener('error', handleError);
+      resolve();
+    };
+    const handleError = () => {
+      video.removeEventListener('seeked', handleSeeked);
+      reject(new Error('Seek failed'));
+    };
+    video.addEventListener('seeked', handleSeeked, { once: true });
+    video.addEventListener('error', handleError, { once: true });
+    video.currentTime = time;
+  });
+
+  const store = (key: number, frame: HTMLCanvasElement) => {
+    cache.set(key, frame);
+    if (cache.size > MAX_CACHED_FRAMES) {
+      cache.delete(cache.keys().next().value as number);
+    }
+  };
+
+  const pump = async () => {
+    if (busy) return;
+    busy = true;
+    try {
+      await ready;
+      while (!disposed && queue.length > 0) {
+        const time = queue.shift() as number;
+        const key = toKey(time);
+        if (cache.has(key)) continue;
+
+        // Seeking exactly to the end shows nothing in some browsers
+        await seek(Math.min(time, Math.max(0, video.duration - 0.05)));
+        if (disposed) break;
+
+        const frame = document.createElement('canvas');
+        frame.width = frameWidth;
+        frame.height = frameHeight;
+        frame.getContext('2d')?.drawImage(video, 0, 0, frameWidth, frameHeight);
+        store(key, frame);
+        grabber.onFrame?.();
+      }
+    } catch (e) {
+      console.error('Thumbnail extraction failed', e);
+      queue = [];
+    } finally {
+      busy = false;
+    }
+  };
+
+  const grabber: FrameGrabber = {
+    ready,
+    onFrame: null,
+    getFrame: (time) => {
+      const frame = cache.get(toKey(time));
+      if (frame) {
+        // Refresh so frames in view are the last to be evicted
+        cache.delete(toKey(time));
+        cache.set(toKey(time), frame);
+      }
+      return frame;
+    },
+    request: (times) => {
+      queue = times.filter(time => !cache.has(toKey(time)));
+      pump();
+    },
+    dispose: () => {
+      disposed = true;
+      queue = [];
+      cache.clear();
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    }
+  };
+
+  return grabber;
+};
@@ -0,0 +1,101 @@
+import { KeepRange } from '../types';
+
+// Shortest range the handles can be dragged down to
+export const MIN_RANGE_LENGTH = 0.5;
+
+let nextRangeId = 1;
+
+export const createRange = (start: number, end: number): KeepRange => ({ id: nextRangeId++, start, end });
+
+// Ranges in source order; the list itself stays in output order
+export const sortBySource = (ranges: KeepRange[]) => [...ranges].sort((a, b) => a.start - b.start);
+
+// Total source time covered by the ranges
+export const getRangesDuration = (ranges: KeepRange[]) =>
+  ranges.reduce((sum, range) => sum + Math.max(0, range.end - range.start), 0);
+
+// Index (in list order) of the range playing source time `time`, or -1
+export const findRangeIndex = (ranges: KeepRange[], time: number) =>
+  ranges.findIndex(range => time >= range.start && time < range.end);
+
+/**
+ * Moves a time that falls between ranges to the nearest range edge.
+ * Returns the time and the index of the range it ended up in.
+ */
+export const snapToRanges = (ranges: KeepRange[], time: number): { time: number; index: number } => {
+  let best = { time, index: -1, distance: Infinity };
+  ranges.forEach((range, index) => {
+    const clamped = Math.max(range.start, Math.min(range.end, time));
+    const distance = Math.abs(clamped - time);
+    if (distance < best.distance) best = { time: clamped, index, distance };
+  });
+  return { time: best.time, index: best.index };
+};
+
+/**
+ * Adds a range at `time`. Inside an existing range this splits it in two
+ * so a middle part can be dragged out; in a gap the new range fills the gap.
+ * The new range goes right after its source-order predecessor in the list.
+ */
+export const addRangeAt = (ranges: KeepRange[], time: number, duration: number): KeepRange[] => {
+  const index = findRangeIndex(ranges, time);
+  if (index !== -1) {
+    const range = ranges[index];
+    if (time - range.start < MIN_RANGE_LENGTH || range.end - time < MIN_RANGE_LENGTH) return ranges;
+    const next = [...ranges];
+    next.splice(index, 1, { ...range, end: time }, createRange(time, range.end));
+    return next;
+  }
+
+  const sorted = sortBySource(ranges);
+  const before = sorted.filter(range => range.end <= time).pop();
+  const after = sorted.find(range => range.start > time);
+  const start = before ? before.end : 0;
+  const end = after ? after.start : duration;
+  if (end - start < MIN_RANGE_LENGTH) return ranges;
+
+  const next = [...ranges];
+  const insertAt = before ? ranges.indexOf(before) + 1 : 0;
+  next.splice(insertAt, 0, createRange(start, end));
+  return next;
+};
+
+export const removeRange = (ranges: KeepRange[], id: number) => ranges.filter(range => range.id !== id);
+
+// Moves a range one step earlier (-1) or later (1) in the output
+export const moveRange = (ranges: KeepRange[], id: number, direction: -1 | 1): KeepRange[] => {
+  const index = ranges.findIndex(range => range.id === id);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= ranges.length) return ranges;
+  const next = [...ranges];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+/**
+ * Sets new in/out points for a range, clamped so it keeps its minimum
+ * length and never overlaps its neighbours in the source.
+ */
+export const resizeRange = (
+  ranges: KeepRange[],
+  id: number,
+  start: number,
+  end: number,
+  duration: number
+): KeepRange[] => {
+  const range = ranges.find(r => r.id === id);
+  if (!range) return ranges;
+
+  const sorted = sortBySource(ranges);
+  const position = sorted.indexOf(range);
+  const lower = position > 0 ? sorted[position - 1].end : 0;
+  const upper = position < sorted.length - 1 ? sorted[position + 1].start : duration;
+
+  // Whichever edge moved gives way to the minimum length
+  const newStart = start !== range.start
+    ? Math.max(lower, Math.min(start, end - MIN_RANGE_LENGTH))
+    : start;
+  const newEnd = Math.min(upper, Math.max(end, newStart + MIN_RANGE_LENGTH));
+
+  return ranges.map(r => (r.id === id ? { ...r, start: newStart, end: newEnd } : r));
+};
@@ -0,0 +1,248 @@
+import { EditPiece, getPieceDuration } from './editTimeline';
+
+/*
+ * Keyframe positions and frame rate read straight from an MP4 / MOV sample
+ * table, so the fast export can cut on keyframes and copy the streams
+ * instead of re-encoding, and cut lists can carry the real frame rate.
+ * Only the boxes needed are read: the top-level headers to find `moov`, then
+ * `moov` itself, which is usually a small part of the file.
+ */
+
+interface Box {
+  type: string;
+  start: number; // first byte of the content, relative to the view
+  end: number;
+}
+
+const readType = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+
+// Size of a box from its header: 32-bit, 64-bit (size 1) or "to the end" (size 0)
+const readBoxSize = (view: DataView, offset: number, available: number) => {
+  const size = view.getUint32(offset);
+  if (size === 1) return { size: Number(view.getBigUint64(offset + 8)), header: 16 };
+  if (size === 0) return { size: available, header: 8 };
+  return { size, header: 8 };
+};
+
+const children = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    const { size, header } = readBoxSize(view, offset, end - offset);
+    if (size < header) break;
+    boxes.push({ type: readType(view, offset + 4), start: offset + header, end: Math.min(end, offset + size) });
+    offset += size;
+  }
+  return boxes;
+};
+
+const find = (view: DataView, box: Box | undefined, type: string) =>
+  box ? children(view, box.start, box.end).find(child => child.type === type) : undefined;
+
+// Looks through the top-level boxes for `moov` without reading the media data
+const readMoov = async (file: File): Promise<DataView | null> => {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    if (header.byteLength < 8) return null;
+    const { size, header: headerSize } = readBoxSize(header, 0, file.size - offset);
+    if (size < headerSize) return null;
+    if (readType(header, 4) === 'moov') {
+      return new DataView(await file.slice(offset + headerSize, offset + size).arrayBuffer());
+    }
+    offset += size;
+  }
+  return null;
+};
+
+// Presentation offset of the media from the first non-empty edit list entry
+const readEditOffset = (view: DataView, trak: Box) => {
+  const elst = find(view, find(view, trak, 'edts'), 'elst');
+  if (!elst) return 0;
+  const version = view.getUint8(elst.start);
+  const count = view.getUint32(elst.start + 4);
+  const entrySize = version === 1 ? 20 : 12;
+  for (let i = 0; i < count; i++) {
+    const entry = elst.start + 8 + i * entrySize;
+    const mediaTime = version === 1 ? Number(view.getBigInt64(entry + 8)) : view.getInt32(entry + 4);
+    if (mediaTime !== -1) return mediaTime;
+  }
+  return 0;
+};
+
+export interface VideoTrackInfo {
+  keyframes: number[]; // seconds, presentation order
+  frameRate: number; // average frames per second
+  width: number;
+  height: number;
+}
+
+// Display size from the track header, stored as 16.16 fixed point
+const readTrackSize = (view: DataView, trak: Box) => {
+  const tkhd = find(view, trak, 'tkhd');
+  if (!tkhd) return { width: 0, height: 0 };
+  const offset = tkhd.start + (view.getUint8(tkhd.start) === 1 ? 88 : 76);
+  return { width: view.getUint32(offset) / 65536, height: view.getUint32(offset + 4) / 65536 };
+};
+
+const readVideoTrack = (view: DataView, trak: Box): VideoTrackInfo | null => {
+  const mdia = find(view, trak, 'mdia');
+  const hdlr = find(view, mdia, 'hdlr');
+  if (!hdlr || readType(view, hdlr.start + 8) !== 'vide') return null;
+
+  const mdhd = find(view, mdia, 'mdhd');
+  const stbl = find(view, find(view, mdia, 'minf'), 'stbl');
+  const stts = find(view, stbl, 'stts');
+  if (!mdhd || !stts) return null;
+  const timescale = view.getUint32(mdhd.start + (view.getUint8(mdhd.start) === 1 ? 20 : 12));
+  if (!timescale) return null;
+
+  // No stss means every sample is a sync sample
+  const stss = find(view, stbl, 'stss');
+  const syncSamples = stss
+    ? Array.from({ length: view.getUint32(stss.start + 4) }, (_, i) => view.getUint32(stss.start + 8 + i * 4))
+    : null;
+
+  const ctts = find(view, stbl, 'ctts');
+  const cttsCount = ctts ? view.getUint32(ctts.start + 4) : 0;
+  let cttsEntry = 0;
+  let cttsLeft = ctts && cttsCount > 0 ? view.getUint32(ctts.start + 8) : 0;
+  const compositionOffset = () => {
+    if (!ctts || cttsEntry >= cttsCount) return 0;
+    const offset = view.getInt32(ctts.start + 12 + cttsEntry * 8);
+    if (--cttsLeft <= 0 && ++cttsEntry < cttsCount) cttsLeft = view.getUint32(ctts.start + 8 + cttsEntry * 8);
+    return offset;
+  };
+
+  const editOffset = readEditOffset(view, trak);
+  const keyframes: number[] = [];
+  let sample = 1;
+  let decodeTime = 0;
+  let nextSync = 0;
+  const entries = view.getUint32(stts.start + 4);
+  for (let i = 0; i < entries; i++) {
+    const count = view.getUint32(stts.start + 8 + i * 8);
+    const delta = view.getUint32(stts.start + 12 + i * 8);
+    for (let j = 0; j < count; j++, sample++, decodeTime += delta) {
+      const offset = compositionOffset();
+      if (syncSamples) {
+        if (syncSamples[nextSync] !== sample) continue;
+        nextSync++;
+      }
+      keyframes.push(Math.max(0, (decodeTime + offset - editOffset) / timescale));
+    }
+  }
+  if (keyframes.length === 0 || decodeTime === 0) return null;
+
+  return {
+    keyframes: keyframes.sort((a, b) => a - b),
+    frameRate: (sample - 1) / (decodeTime / timescale),
+    ...readTrackSize(view, trak)
+  };
+};
+
+/**
+ * Keyframes, frame rate and size of the first video track, or null when the
+ * file is not a plain MP4 / MOV with a video track. Fragmented files keep
+ * their sample tables in `moof` boxes and are not supported.
+ */
+export const readVideoTrackInfo = async (file: File): Promise<VideoTrackInfo | null> => {
+  try {
+    const view = await readMoov(file);
+    if (!view) return null;
+    const boxes = children(view, 0, view.byteLength);
+    if (boxes.some(box => box.type === 'mvex')) return null;
+    for (const trak of boxes.filter(box => box.type === 'trak')) {
+      const info = readVideoTrack(view, trak);
+      if (info) return info;
+    }
+    return null;
+  } catch (e) {
+    // Truncated or unusual files: no fast export rather than a crash
+    console.warn('Could not read the video track', e);
+    return null;
+  }
+};
+
+// A piece of the plan widened to keyframes, with the cut points it was asked for
+export interface SnappedPiece {
+  start: number;
+  end: number;
+  requestedStart: number;
+  requestedEnd: number;
+}
+
+// Times within this of a keyframe count as on it
+const KEYFRAME_EPSILON = 1e-3;
+
+// Last keyframe at or before `time`
+const snapDown = (keyframes: number[], time: number) => {
+  let lo = 0;
+  let hi = keyframes.length - 1;
+  let found = 0;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (keyframes[mid] <= time + KEYFRAME_EPSILON) {
+      found = keyframes[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
+
+// First keyframe at or after `time`, or the end of the media (Infinity if unknown)
+const snapUp = (keyframes: number[], time: number, duration: number) => {
+  let lo = 0;
+  let hi = keyframes.length - 1;
+  let found = duration;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (keyframes[mid] >= time - KEYFRAME_EPSILON) {
+      found = keyframes[mid];
+      hi = mid - 1;
+    } else {
+      lo = mid + 1;
+    }
+  }
+  return Math.min(found, duration);
+};
+
+/**
+ * Widens every piece outwards to keyframes so it can be stream-copied.
+ * Neighbours that now overlap in the source are merged, which also joins
+ * the pauses of speed-up mode back into normal-speed footage: a stream copy
+ * cannot change speed.
+ */
+export const snapPlanToKeyframes = (plan: EditPiece[], keyframes: number[], duration = Infinity): SnappedPiece[] => {
+  const snapped: SnappedPiece[] = [];
+  plan.forEach(piece => {
+    const start = snapDown(keyframes, piece.start);
+    const end = snapUp(keyframes, piece.end, duration);
+    const last = snapped[snapped.length - 1];
+    if (last && start >= last.start && start <= last.end + KEYFRAME_EPSILON) {
+      last.end = Math.max(last.end, end);
+      last.requestedEnd = piece.end;
+    } else {
+      snapped.push({ start, end, requestedStart: piece.start, requestedEnd: piece.end });
+    }
+  });
+  return snapped;
+};
+
+// The snapped pieces as an edit plan, for mapping times onto the fast export
+export const snappedToPlan = (pieces: SnappedPiece[]): EditPiece[] => {
+  let outputStart = 0;
+  return pieces.map(({ start, end }) => {
+    const piece = { start, end, speed: 1, outputStart };
+    outputStart += getPieceDuration(piece);
+    return piece;
+  });
+};
@@ -0,0 +1,193 @@
+import { AnalysisProgress, AnalysisStage, AudioSegment, ChannelMode, DetectionSettings, ProjectAudio, VoiceFeatures } from '../types';
+import { AnalysisRequest, AnalysisResponse } from '../workers/analysisProtocol';
+
+// Share of the overall progress bar taken by each stage, in order
+const STAGE_WEIGHTS: [AnalysisStage, number][] = [
+  ['read', 0.25],
+  ['decode', 0.35],
+  ['envelope', 0.3],
+  ['segmentation', 0.1]
+];
+
+const toOverall = (stage: AnalysisStage, stageProgress: number): number => {
+  let overall = 0;
+  for (const [name, weight] of STAGE_WEIGHTS) {
+    if (name === stage) return overall + weight * stageProgress;
+    overall += weight;
+  }
+  return overall;
+};
+
+export interface AnalyzeMediaOptions {
+  settings: DetectionSettings;
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+export interface AnalyzeMediaResult {
+  audio: ProjectAudio;
+  segments: AudioSegment[];
+}
+
+const abortError = () => new DOMException('Analysis cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Samples per channel in each pcm-chunk message
+const PCM_CHUNK_SAMPLES = 1 << 20;
+
+/**
+ * Streams channel data to the worker. Each chunk is a small copy that is
+ * transferred straight away, so the main thread never holds a second full
+ * copy of the audio next to the AudioBuffer it keeps for the project.
+ */
+const sendChannels = (worker: Worker, channels: Float32Array[], sampleRate: number) => {
+  const length = channels[0]?.length ?? 0;
+  const start: AnalysisRequest = { type: 'pcm-start', channelCount: channels.length, length, sampleRate };
+  worker.postMessage(start);
+  for (let offset = 0; offset < length; offset += PCM_CHUNK_SAMPLES) {
+    const chunk: AnalysisRequest = {
+      type: 'pcm-chunk',
+      offset,
+      channels: channels.map(channel => channel.slice(offset, offset + PCM_CHUNK_SAMPLES))
+    };
+    worker.postMessage(chunk, chunk.channels.map(channel => channel.buffer));
+  }
+};
+
+/**
+ * Reads, decodes and segments a media file. Reading, the envelope and
+ * segmentation run in a worker; decoding has to stay on the main thread
+ * because workers have no AudioContext, but the browser decodes off-thread
+ * anyway so the UI stays responsive.
+ */
+export const analyzeMedia = (file: File, options: AnalyzeMediaOptions): Promise<AnalyzeMediaResult> => {
+  const { signal, onProgress } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/analysis.worker.ts', import.meta.url), { type: 'module' });
+    let audioBuffer: AudioBuffer | null = null;
+    let settled = false;
+
+    const report = (stage: AnalysisStage, stageProgress: number) => {
+      onProgress?.({ stage, stageProgress, overall: toOverall(stage, stageProgress) });
+    };
+
+    const finish = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+      fn();
+    };
+
+    const onAbort = () => finish(() => reject(abortError()));
+    signal?.addEventListener('abort', onAbort);
+
+    const send = (request: AnalysisRequest, transfer: Transferable[] = []) => {
+      worker.postMessage(request, transfer);
+    };
+
+    const decode = async (buffer: ArrayBuffer) => {
+      report('decode', 0);
+      const audioContext = new AudioContext();
+      try {
+        audioBuffer = await audioContext.decodeAudioData(buffer);
+      } finally {
+        audioContext.close();
+      }
+      if (settled) return;
+      report('decode', 1);
+
+      const channels: Float32Array[] = [];
+      for (let c = 0; c < audioBuffer.numberOfChannels; c++) {
+        channels.push(audioBuffer.getChannelData(c));
+      }
+      sendChannels(worker, channels, audioBuffer.sampleRate);
+      send({ type: 'analyze', settings: options.settings });
+    };
+
+    worker.onmessage = (e: MessageEvent<AnalysisResponse>) => {
+      const message = e.data;
+      switch (message.type) {
+        case 'progress':
+          report(message.stage, message.progress);
+          break;
+        case 'read-done':
+          decode(message.buffer).catch(error => finish(() => reject(error)));
+          break;
+        case 'analyze-done':
+          finish(() => resolve({
+            audio: { audioBuffer: audioBuffer!, envelope: message.envelope },
+            segments: message.segments
+          }));
+          break;
+        case 'error':
+          finish(() => reject(new Error(message.message)));
+          break;
+      }
+    };
+
+    worker.onerror = (e) => finish(() => reject(new Error(e.message || 'Analysis worker failed')));
+
+    send({ type: 'read', file });
+  });
+};
+
+// Spectral features for the voice detector, computed on demand in a worker
+export const analyzeVoice = (
+  audioBuffer: AudioBuffer,
+  channelMode: ChannelMode,
+  channelIndex: number,
+  signal?: AbortSignal
+): Promise<VoiceFeatures> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/analysis.worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = (fn: () => void) => {
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+      fn();
+    };
+
+    const onAbort = () => finish(() => reject(abortError()));
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (e: MessageEvent<AnalysisResponse>) => {
+      if (e.data.type === 'voice-done') {
+        const { features } = e.data;
+        finish(() => resolve(features));
+      } else if (e.data.type === 'error') {
+        const { message } = e.data;
+        finish(() => reject(new Error(message)));
+      }
+    };
+
+    worker.onerror = (e) => finish(() => reject(new Error(e.message || 'Analysis worker failed')));
+
+    // Only the channels the features are computed from
+    const indices = channelMode === 'channel'
+      ? [Math.min(channelIndex, audioBuffer.numberOfChannels - 1)]
+      : Array.from({ length: audioBuffer.numberOfChannels }, (_, c) => c);
+    sendChannels(worker, indices.map(c => audioBuffer.getChannelData(c)), audioBuffer.sampleRate);
+
+    const request: AnalysisRequest = {
+      type: 'voice',
+      // The worker only sees the channels we sent
+      channelMode: channelMode === 'channel' ? 'channel' : 'mix',
+      channelIndex: 0
+    };
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { EditPiece } from './editTimeline';
+import { FRAME_RATES, generateEdl } from './nleExport';
+
+// Piece boundaries that fall between frames and round different ways
+const PLAN: EditPiece[] = [
+  { start: 0.016, end: 0.05, speed: 1, outputStart: 0 },
+  { start: 1.013, end: 2.487, speed: 1, outputStart: 0.034 },
+  { start: 2.487, end: 3.9, speed: 4, outputStart: 1.508 },
+  { start: 5.333, end: 7.019, speed: 1, outputStart: 1.86125 }
+];
+
+const toFrames = (timecode: string, timebase: number) => {
+  const [hh, mm, ss, ff] = timecode.split(/[:;]/).map(Number);
+  return ((hh * 60 + mm) * 60 + ss) * timebase + ff;
+};
+
+describe('generateEdl', () => {
+  // Drop-frame timecodes skip frame numbers, so only non-drop rates are counted directly
+  it.each(FRAME_RATES.filter(rate => !(rate.ntsc && rate.timebase % 30 === 0)))('matches source and record durations at $label fps', rate => {
+    const edl = generateEdl(PLAN, { name: 'clip.mp4', duration: 10, frameRate: rate, hasVideo: true, width: 1920, height: 1080, audioChannels: 2, sampleRate: 48000 });
+    const events = edl.split('\n').filter(line => /^\d{3} /.test(line));
+    expect(events.length).toBeGreaterThan(0);
+    events.forEach(line => {
+      const [sourceIn, sourceOut, recordIn, recordOut] = line.trim().split(/\s+/).slice(-4).map(tc => toFrames(tc, rate.timebase));
+      expect(sourceOut - sourceIn).toBe(recordOut - recordIn);
+      expect(recordOut).toBeGreaterThan(recordIn);
+    });
+  });
+});
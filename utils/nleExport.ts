@@ -0,0 +1,279 @@
+import { EditPiece, getPieceDuration } from './editTimeline';
+
+/*
+ * Cut lists for finishing in an NLE: a CMX3600 EDL, an FCPXML timeline for
+ * Final Cut / Resolve and an xmeml sequence for Premiere. All three reference
+ * the original media, so every kept piece arrives as a real edit.
+ */
+
+export interface FrameRate {
+  label: string;
+  timebase: number; // nominal whole frames per second
+  ntsc: boolean; // runs at timebase * 1000/1001
+}
+
+export const FRAME_RATES: FrameRate[] = [
+  { label: '23.976', timebase: 24, ntsc: true },
+  { label: '24', timebase: 24, ntsc: false },
+  { label: '25', timebase: 25, ntsc: false },
+  { label: '29.97', timebase: 30, ntsc: true },
+  { label: '30', timebase: 30, ntsc: false },
+  { label: '50', timebase: 50, ntsc: false },
+  { label: '59.94', timebase: 60, ntsc: true },
+  { label: '60', timebase: 60, ntsc: false }
+];
+
+export const getFps = (rate: FrameRate) => (rate.ntsc ? (rate.timebase * 1000) / 1001 : rate.timebase);
+
+// The standard rate nearest a measured one, e.g. 29.969 from a sample table
+export const closestFrameRate = (fps: number): FrameRate =>
+  FRAME_RATES.reduce((best, rate) => (Math.abs(getFps(rate) - fps) < Math.abs(getFps(best) - fps) ? rate : best));
+
+// NTSC 29.97 and 59.94 use drop-frame timecode so it keeps up with the clock
+const isDropFrame = (rate: FrameRate) => rate.ntsc && rate.timebase % 30 === 0;
+
+export interface NleSource {
+  name: string;
+  duration: number; // seconds
+  frameRate: FrameRate;
+  hasVideo: boolean;
+  width: number;
+  height: number;
+  audioChannels: number;
+  sampleRate: number;
+}
+
+// One edit in whole frames; record frames count from the start of the sequence
+interface FrameEdit {
+  sourceIn: number;
+  sourceOut: number;
+  recordIn: number;
+  recordOut: number;
+  speed: number;
+}
+
+const toFrameEdits = (plan: EditPiece[], rate: FrameRate): FrameEdit[] => {
+  const fps = getFps(rate);
+  const edits: FrameEdit[] = [];
+  let record = 0;
+  plan.forEach(piece => {
+    const sourceIn = Math.round(piece.start * fps);
+    const sourceOut = Math.round(piece.end * fps);
+    // At normal speed the length is the rounded source span, so source and record durations match
+    const length = piece.speed === 1 ? sourceOut - sourceIn : Math.round(getPieceDuration(piece) * fps);
+    if (sourceOut <= sourceIn || length <= 0) return;
+    edits.push({ sourceIn, sourceOut, recordIn: record, recordOut: record + length, speed: piece.speed });
+    record += length;
+  });
+  return edits;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// HH:MM:SS:FF, or HH:MM:SS;FF in drop-frame
+export const framesToTimecode = (frames: number, rate: FrameRate): string => {
+  const fps = rate.timebase;
+  let count = frames;
+  if (isDropFrame(rate)) {
+    // Frame numbers 0 and 1 (0-3 at 60) are skipped every minute except every tenth
+    const dropped = fps / 15;
+    const perTenMinutes = fps * 600 - dropped * 9;
+    const perMinute = fps * 60 - dropped;
+    const tens = Math.floor(count / perTenMinutes);
+    const rest = count % perTenMinutes;
+    count += dropped * 9 * tens + (rest > dropped ? dropped * Math.floor((rest - dropped) / perMinute) : 0);
+  }
+  const ff = count % fps;
+  const ss = Math.floor(count / fps) % 60;
+  const mm = Math.floor(count / (fps * 60)) % 60;
+  const hh = Math.floor(count / (fps * 3600)) % 24;
+  return `${pad(hh)}:${pad(mm)}:${pad(ss)}${isDropFrame(rate) ? ';' : ':'}${pad(ff)}`;
+};
+
+// Sequences conventionally start at 01:00:00:00
+const recordStartFrames = (rate: FrameRate) =>
+  isDropFrame(rate) ? 6 * (rate.timebase * 600 - (rate.timebase / 15) * 9) : rate.timebase * 3600;
+
+const baseName = (name: string) => name.replace(/\.[^/.]+$/, '');
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// The browser never sees the folder, so the NLE relinks by file name
+const mediaUrl = (name: string) => `file://localhost/${encodeURIComponent(name)}`;
+
+/**
+ * CMX3600 EDL with one event per kept piece. Sped-up pieces get an M2
+ * motion effect line; reel names are limited to 8 characters so every
+ * event uses "AX" and names the clip in a comment.
+ */
+export const generateEdl = (plan: EditPiece[], source: NleSource): string => {
+  const rate = source.frameRate;
+  const edits = toFrameEdits(plan, rate);
+  const offset = recordStartFrames(rate);
+  const channels = source.hasVideo ? 'B' : 'A';
+
+  let edl = `TITLE: ${baseName(source.name).toUpperCase().slice(0, 70)}\n`;
+  edl += `FCM: ${isDropFrame(rate) ? 'DROP FRAME' : 'NON-DROP FRAME'}\n\n`;
+
+  edits.forEach((edit, index) => {
+    const event = String(index + 1).padStart(3, '0');
+    const sourceOut = edit.speed === 1 ? edit.sourceOut : edit.sourceIn + (edit.recordOut - edit.recordIn);
+    edl += `${event}  AX       ${channels.padEnd(5)} C        `;
+    edl += `${framesToTimecode(edit.sourceIn, rate)} ${framesToTimecode(sourceOut, rate)} `;
+    edl += `${framesToTimecode(edit.recordIn + offset, rate)} ${framesToTimecode(edit.recordOut + offset, rate)}\n`;
+    if (edit.speed !== 1) {
+      const reelSpeed = (getFps(rate) * edit.speed).toFixed(1).padStart(5);
+      edl += `M2   AX       ${reelSpeed}    ${framesToTimecode(edit.sourceIn, rate)}\n`;
+    }
+    edl += `* FROM CLIP NAME: ${source.name}\n\n`;
+  });
+  return edl;
+};
+
+// Rational seconds the way FCPXML writes time, e.g. "1001/30000s"
+const fcpTime = (frames: number, rate: FrameRate) => {
+  if (frames === 0) return '0s';
+  return rate.ntsc ? `${frames * 1001}/${rate.timebase * 1000}s` : `${frames}/${rate.timebase}s`;
+};
+
+/**
+ * FCPXML 1.9 project with the pieces as asset clips on the primary
+ * storyline. Sped-up pieces carry a linear time map.
+ */
+export const generateFcpxml = (plan: EditPiece[], source: NleSource): string => {
+  const rate = source.frameRate;
+  const edits = toFrameEdits(plan, rate);
+  const name = escapeXml(baseName(source.name));
+  const total = edits.length > 0 ? edits[edits.length - 1].recordOut : 0;
+  const sourceFrames = Math.round(source.duration * getFps(rate));
+  const tcFormat = isDropFrame(rate) ? 'DF' : 'NDF';
+  const size = source.hasVideo && source.width > 0 ? ` width="${source.width}" height="${source.height}"` : '';
+  const audioRate = source.sampleRate === 44100 ? '44.1k' : '48k';
+
+  let xml = `<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE fcpxml>\n<fcpxml version="1.9">\n`;
+  xml += `  <resources>\n`;
+  xml += `    <format id="r1" frameDuration="${fcpTime(1, rate)}"${size}/>\n`;
+  xml += `    <asset id="r2" name="${name}" src="${escapeXml(mediaUrl(source.name))}" start="0s" duration="${fcpTime(sourceFrames, rate)}"`;
+  xml += ` hasVideo="${source.hasVideo ? 1 : 0}" format="r1" hasAudio="1" audioSources="1" audioChannels="${source.audioChannels}" audioRate="${source.sampleRate}"/>\n`;
+  xml += `  </resources>\n`;
+  xml += `  <library>\n    <event name="SilentCut">\n      <project name="${name} (edited)">\n`;
+  xml += `        <sequence format="r1" duration="${fcpTime(total, rate)}" tcStart="0s" tcFormat="${tcFormat}" audioLayout="stereo" audioRate="${audioRate}">\n`;
+  xml += `          <spine>\n`;
+
+  edits.forEach(edit => {
+    const length = fcpTime(edit.recordOut - edit.recordIn, rate);
+    const offset = fcpTime(edit.recordIn, rate);
+    if (edit.speed === 1) {
+      xml += `            <asset-clip ref="r2" name="${name}" offset="${offset}" start="${fcpTime(edit.sourceIn, rate)}" duration="${length}" tcFormat="${tcFormat}"/>\n`;
+    } else {
+      // Local clip time 0..length plays source sourceIn..sourceOut
+      xml += `            <asset-clip ref="r2" name="${name}" offset="${offset}" start="0s" duration="${length}" tcFormat="${tcFormat}">\n`;
+      xml += `              <timeMap>\n`;
+      xml += `                <timept time="0s" value="${fcpTime(edit.sourceIn, rate)}" interp="linear"/>\n`;
+      xml += `                <timept time="${length}" value="${fcpTime(edit.sourceOut, rate)}" interp="linear"/>\n`;
+      xml += `              </timeMap>\n`;
+      xml += `            </asset-clip>\n`;
+    }
+  });
+
+  xml += `          </spine>\n        </sequence>\n      </project>\n    </event>\n  </library>\n</fcpxml>\n`;
+  return xml;
+};
+
+const xmemlRate = (rate: FrameRate, indent: string) =>
+  `${indent}<rate>\n${indent}  <timebase>${rate.timebase}</timebase>\n${indent}  <ntsc>${rate.ntsc ? 'TRUE' : 'FALSE'}</ntsc>\n${indent}</rate>\n`;
+
+/**
+ * Premiere Pro (FCP7 xmeml v4) sequence with matching video and audio
+ * clip items per piece. Sped-up pieces use Premiere's Time Remap effect;
+ * their in/out points are in retimed frames, as Premiere expects.
+ */
+export const generateXmeml = (plan: EditPiece[], source: NleSource): string => {
+  const rate = source.frameRate;
+  const edits = toFrameEdits(plan, rate);
+  const name = escapeXml(baseName(source.name));
+  const total = edits.length > 0 ? edits[edits.length - 1].recordOut : 0;
+  const sourceFrames = Math.round(source.duration * getFps(rate));
+  const startFrames = recordStartFrames(rate);
+
+  const fileElement = (indent: string, full: boolean) => {
+    if (!full) return `${indent}<file id="file-1"/>\n`;
+    let file = `${indent}<file id="file-1">\n`;
+    file += `${indent}  <name>${escapeXml(source.name)}</name>\n`;
+    file += `${indent}  <pathurl>${escapeXml(mediaUrl(source.name))}</pathurl>\n`;
+    file += xmemlRate(rate, `${indent}  `);
+    file += `${indent}  <duration>${sourceFrames}</duration>\n`;
+    file += `${indent}  <media>\n`;
+    if (source.hasVideo) {
+      file += `${indent}    <video>\n${indent}      <samplecharacteristics>\n`;
+      file += `${indent}        <width>${source.width}</width>\n${indent}        <height>${source.height}</height>\n`;
+      file += `${indent}      </samplecharacteristics>\n${indent}    </video>\n`;
+    }
+    file += `${indent}    <audio>\n${indent}      <channelcount>${source.audioChannels}</channelcount>\n${indent}    </audio>\n`;
+    file += `${indent}  </media>\n${indent}</file>\n`;
+    return file;
+  };
+
+  const clipItem = (edit: FrameEdit, index: number, kind: 'video' | 'audio', indent: string, fullFile: boolean) => {
+    const length = edit.recordOut - edit.recordIn;
+    const clipIn = edit.speed === 1 ? edit.sourceIn : Math.round(edit.sourceIn / edit.speed);
+    let clip = `${indent}<clipitem id="clipitem-${kind}-${index + 1}">\n`;
+    clip += `${indent}  <name>${name}</name>\n`;
+    clip += `${indent}  <enabled>TRUE</enabled>\n`;
+    clip += `${indent}  <duration>${Math.round(sourceFrames / edit.speed)}</duration>\n`;
+    clip += xmemlRate(rate, `${indent}  `);
+    clip += `${indent}  <start>${edit.recordIn}</start>\n${indent}  <end>${edit.recordOut}</end>\n`;
+    clip += `${indent}  <in>${clipIn}</in>\n${indent}  <out>${clipIn + length}</out>\n`;
+    clip += fileElement(`${indent}  `, fullFile);
+    if (kind === 'audio') {
+      clip += `${indent}  <sourcetrack>\n${indent}    <mediatype>audio</mediatype>\n${indent}    <trackindex>1</trackindex>\n${indent}  </sourcetrack>\n`;
+    }
+    if (edit.speed !== 1) {
+      clip += `${indent}  <filter>\n${indent}    <effect>\n`;
+      clip += `${indent}      <name>Time Remap</name>\n${indent}      <effectid>timeremap</effectid>\n`;
+      clip += `${indent}      <effectcategory>motion</effectcategory>\n${indent}      <effecttype>motion</effecttype>\n`;
+      clip += `${indent}      <mediatype>video</mediatype>\n`;
+      clip += `${indent}      <parameter>\n${indent}        <parameterid>speed</parameterid>\n`;
+      clip += `${indent}        <value>${(edit.speed * 100).toFixed(2)}</value>\n${indent}      </parameter>\n`;
+      clip += `${indent}    </effect>\n${indent}  </filter>\n`;
+    }
+    clip += `${indent}</clipitem>\n`;
+    return clip;
+  };
+
+  let xml = `<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE xmeml>\n<xmeml version="4">\n`;
+  xml += `  <sequence id="sequence-1">\n`;
+  xml += `    <name>${name} (edited)</name>\n`;
+  xml += `    <duration>${total}</duration>\n`;
+  xml += xmemlRate(rate, '    ');
+  xml += `    <timecode>\n`;
+  xml += xmemlRate(rate, '      ');
+  xml += `      <string>${framesToTimecode(startFrames, rate)}</string>\n`;
+  xml += `      <frame>${startFrames}</frame>\n`;
+  xml += `      <displayformat>${isDropFrame(rate) ? 'DF' : 'NDF'}</displayformat>\n`;
+  xml += `    </timecode>\n`;
+  xml += `    <media>\n`;
+
+  // The first clip item that mentions the file defines it; the rest refer to it
+  let fileDefined = false;
+  const track = (kind: 'video' | 'audio') => {
+    let section = `      <${kind}>\n        <track>\n`;
+    edits.forEach((edit, index) => {
+      section += clipItem(edit, index, kind, '          ', !fileDefined);
+      fileDefined = true;
+    });
+    section += `        </track>\n      </${kind}>\n`;
+    return section;
+  };
+  if (source.hasVideo) xml += track('video');
+  xml += track('audio');
+
+  xml += `    </media>\n  </sequence>\n</xmeml>\n`;
+  return xml;
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { ExportConfig } from '../types';
+import { DEFAULT_DETECTION_SETTINGS } from './audioAnalysis';
+import { createProjectFile, parseProjectFile, projectToCsv, projectToJson } from './projectFile';
+
+const EXPORT_CONFIG: ExportConfig = {
+  format: 'mp3',
+  ranges: [{ id: 3, start: 0, end: 8 }],
+  bgMusicFile: null,
+  scriptMode: 'filtergraph',
+  burnSubtitles: false,
+  padBefore: 0.1,
+  padAfter: 0.15,
+  pauseMode: 'speedup',
+  pauseLength: 0.25,
+  pauseSpeed: 3
+};
+
+const { bgMusicFile: _, ...SAVED_CONFIG } = EXPORT_CONFIG;
+const DEFAULTS = {
+  detection: DEFAULT_DETECTION_SETTINGS,
+  exportConfig: { ...SAVED_CONFIG, format: 'mp4' as const, scriptMode: 'segments' as const, bgMusicName: null }
+};
+
+const PROJECT = createProjectFile(
+  { name: 'clip.mp4', size: 1000, fingerprint: 'abc', duration: 8 },
+  { ...DEFAULT_DETECTION_SETTINGS, thresholdDb: -42 },
+  [{ start: 0, end: 3, isSilent: false }, { start: 3, end: 8, isSilent: true }],
+  { overrides: [{ start: 4, end: 5, isSilent: false }], splits: [6] },
+  EXPORT_CONFIG
+);
+
+// Just enough of the saved JSON to edit fields in it
+interface SavedJson {
+  version: unknown;
+  detection: Record<string, unknown> | unknown[];
+  exportConfig: Record<string, unknown>;
+}
+
+// The saved JSON with some fields replaced
+const withFields = (patch: (file: SavedJson) => void) => {
+  const file = JSON.parse(projectToJson(PROJECT));
+  patch(file);
+  return JSON.stringify(file);
+};
+
+describe('parseProjectFile', () => {
+  it('reads back JSON and CSV', () => {
+    const expected = { ...PROJECT, exportConfig: { ...PROJECT.exportConfig, ranges: [{ id: 0, start: 0, end: 8 }] } };
+    expect(parseProjectFile(projectToJson(PROJECT), DEFAULTS)).toEqual(expected);
+    expect(parseProjectFile(projectToCsv(PROJECT), DEFAULTS)).toEqual(expected);
+  });
+
+  it('fills in settings missing from the file and drops unknown ones', () => {
+    const text = withFields(file => {
+      delete (file.detection as Record<string, unknown>).windowSize;
+      file.exportConfig.somethingNew = true;
+    });
+    const project = parseProjectFile(text, DEFAULTS);
+    expect(project.detection.windowSize).toBe(DEFAULT_DETECTION_SETTINGS.windowSize);
+    expect(project.exportConfig).not.toHaveProperty('somethingNew');
+  });
+
+  it.each([
+    ['a text threshold', (file: SavedJson) => { (file.detection as Record<string, unknown>).thresholdDb = 'x'; }],
+    ['a numeric pause mode', (file: SavedJson) => { file.exportConfig.pauseMode = 3; }],
+    ['a null script mode', (file: SavedJson) => { file.exportConfig.scriptMode = null; }],
+    ['an unknown format', (file: SavedJson) => { file.exportConfig.format = 'mkv'; }],
+    ['a detection list', (file: SavedJson) => { file.detection = []; }]
+  ])('refuses %s', (_, patch) => {
+    expect(() => parseProjectFile(withFields(patch), DEFAULTS)).toThrow(/invalid|malformed/);
+  });
+
+  it('refuses a CSV setting that does not parse', () => {
+    const csv = projectToCsv(PROJECT).replace(/^detection\.thresholdDb,,,.*$/m, 'detection.thresholdDb,,,loud');
+    expect(() => parseProjectFile(csv, DEFAULTS)).toThrow('thresholdDb');
+  });
+
+  it.each([0, -1, 2])('refuses version %s', version => {
+    expect(() => parseProjectFile(withFields(file => { file.version = version; }), DEFAULTS)).toThrow(/version/);
+  });
+});
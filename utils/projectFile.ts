@@ -0,0 +1,317 @@
+import { AudioSegment, DetectionSettings, ExportConfig, KeepRange, ManualEdits, SegmentOverride } from '../types';
+
+/*
+ * Cut lists saved as versioned JSON (or a flat CSV for spreadsheets) so a
+ * project's decisions can leave the app and come back. Media is never
+ * stored, only a fingerprint to check it is the same file on import.
+ */
+
+export const PROJECT_FILE_VERSION = 1;
+const FORMAT_ID = 'silentcut-cutlist';
+
+export interface ProjectSource {
+  name: string;
+  size: number;
+  fingerprint: string;
+  duration: number;
+}
+
+// ExportConfig without the music File, which can't be serialized
+export type SavedExportConfig = Omit<ExportConfig, 'bgMusicFile'> & { bgMusicName: string | null };
+
+export interface ProjectFile {
+  format: typeof FORMAT_ID;
+  version: number;
+  source: ProjectSource;
+  detection: DetectionSettings;
+  segments: AudioSegment[]; // as detected, before manual edits
+  manualEdits: ManualEdits;
+  exportConfig: SavedExportConfig;
+}
+
+// Hashing the head and tail is enough to tell files apart without reading gigabytes
+const FINGERPRINT_BYTES = 1024 * 1024;
+
+/**
+ * SHA-256 over the file size plus its first and last megabyte, hex encoded.
+ * Renaming the file keeps the fingerprint; re-encoding or trimming it does not.
+ */
+export const fingerprintFile = async (file: File): Promise<string> => {
+  const head = await file.slice(0, FINGERPRINT_BYTES).arrayBuffer();
+  const tail = await file.slice(Math.max(FINGERPRINT_BYTES, file.size - FINGERPRINT_BYTES)).arrayBuffer();
+  const size = new TextEncoder().encode(String(file.size));
+  const data = new Uint8Array(size.byteLength + head.byteLength + tail.byteLength);
+  data.set(size, 0);
+  data.set(new Uint8Array(head), size.byteLength);
+  data.set(new Uint8Array(tail), size.byteLength + head.byteLength);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const createProjectFile = (
+  source: ProjectSource,
+  detection: DetectionSettings,
+  segments: AudioSegment[],
+  manualEdits: ManualEdits,
+  exportConfig: ExportConfig
+): ProjectFile => {
+  const { bgMusicFile, ...config } = exportConfig;
+  return {
+    format: FORMAT_ID,
+    version: PROJECT_FILE_VERSION,
+    source,
+    detection,
+    segments: segments.map(({ start, end, isSilent }) => ({ start, end, isSilent })),
+    manualEdits,
+    exportConfig: {
+      ...config,
+      ranges: config.ranges.map(({ id, start, end }) => ({ id, start, end })),
+      bgMusicName: bgMusicFile?.name ?? null
+    }
+  };
+};
+
+export const projectToJson = (project: ProjectFile) => JSON.stringify(project, null, 2);
+
+const csvField = (value: string | number | boolean) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One record per row: `record,start,end,value`. Settings are `detection.*`
+ * and `export.*` rows with only a value; segments, overrides, splits and
+ * keep ranges use the time columns.
+ */
+export const projectToCsv = (project: ProjectFile): string => {
+  const rows: (string | number | boolean)[][] = [['record', 'start', 'end', 'value']];
+  rows.push(['format', '', '', project.format]);
+  rows.push(['version', '', '', project.version]);
+  rows.push(['source.name', '', '', project.source.name]);
+  rows.push(['source.size', '', '', project.source.size]);
+  rows.push(['source.fingerprint', '', '', project.source.fingerprint]);
+  rows.push(['source.duration', '', '', project.source.duration]);
+  Object.entries(project.detection).forEach(([key, value]) => rows.push([`detection.${key}`, '', '', value]));
+  const { ranges, ...config } = project.exportConfig;
+  Object.entries(config).forEach(([key, value]) => rows.push([`export.${key}`, '', '', value ?? '']));
+  ranges.forEach(range => rows.push(['range', range.start, range.end, '']));
+  project.segments.forEach(seg => rows.push(['segment', seg.start, seg.end, seg.isSilent ? 'silence' : 'speech']));
+  project.manualEdits.overrides.forEach(o => rows.push(['override', o.start, o.end, o.isSilent ? 'cut' : 'keep']));
+  project.manualEdits.splits.forEach(time => rows.push(['split', time, '', '']));
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+};
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell !== ''));
+};
+
+// Reads a CSV value back with the type the same key has in `like`
+const coerce = (value: string, like: unknown) => {
+  if (typeof like === 'number') return Number(value);
+  if (typeof like === 'boolean') return value === 'true';
+  if (like === null) return value === '' ? null : value;
+  return value;
+};
+
+interface Defaults {
+  detection: DetectionSettings;
+  exportConfig: SavedExportConfig;
+}
+
+// A parsed file before validation: anything may be missing or mistyped
+interface RawProjectFile {
+  format?: unknown;
+  version?: unknown;
+  source?: Partial<Record<keyof ProjectSource, unknown>>;
+  detection?: unknown;
+  segments?: unknown;
+  manualEdits?: { overrides?: unknown; splits?: unknown };
+  exportConfig?: { ranges?: unknown };
+}
+
+interface RawTimeRange {
+  start: number;
+  end: number;
+  isSilent?: unknown;
+}
+
+const csvToProject = (text: string, defaults: Defaults): RawProjectFile => {
+  const rows = parseCsv(text);
+  if (rows[0]?.[0] !== 'record') throw new Error('Not a cut list CSV: missing the header row');
+
+  const detection: Record<string, unknown> = { ...defaults.detection };
+  const config: Record<string, unknown> = { ...defaults.exportConfig };
+  const source: Record<string, unknown> = {};
+  const segments: AudioSegment[] = [];
+  const overrides: SegmentOverride[] = [];
+  const splits: number[] = [];
+  const ranges: Pick<KeepRange, 'start' | 'end'>[] = [];
+  let format: string | undefined;
+  let version: number | undefined;
+
+  rows.slice(1).forEach(([record, start, end, value = '']) => {
+    const [group, key] = record.split('.');
+    if (record === 'format') format = value;
+    else if (record === 'version') version = Number(value);
+    else if (group === 'source' && key) source[key] = key === 'size' || key === 'duration' ? Number(value) : value;
+    else if (group === 'detection' && key) detection[key] = coerce(value, detection[key]);
+    else if (group === 'export' && key) config[key] = coerce(value, config[key]);
+    else if (record === 'range') ranges.push({ start: Number(start), end: Number(end) });
+    else if (record === 'segment') segments.push({ start: Number(start), end: Number(end), isSilent: value === 'silence' });
+    else if (record === 'override') overrides.push({ start: Number(start), end: Number(end), isSilent: value === 'cut' });
+    else if (record === 'split') splits.push(Number(start));
+  });
+
+  return {
+    format,
+    version,
+    source,
+    detection,
+    segments,
+    manualEdits: { overrides, splits },
+    exportConfig: { ...config, ranges }
+  };
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isTimeRangeList = (value: unknown): value is RawTimeRange[] =>
+  Array.isArray(value) &&
+  value.every(item => !!item && isFiniteNumber(item.start) && isFiniteNumber(item.end) && item.end >= item.start);
+
+// Values the string settings can take; anything else in a file is refused
+const ALLOWED_VALUES: Record<string, readonly string[]> = {
+  detector: ['volume', 'voice'],
+  channelMode: ['mix', 'loudest', 'channel'],
+  format: ['mp4', 'mov', 'avi', 'mp3', 'wav', 'aac'],
+  pauseMode: ['remove', 'shorten', 'speedup'],
+  scriptMode: ['segments', 'filtergraph', 'copy']
+};
+
+// Whether `value` has the type of the same key in `like`; null there means an optional name
+const matchesDefault = (key: string, value: unknown, like: unknown) => {
+  if (typeof like === 'number') return isFiniteNumber(value);
+  if (typeof like === 'boolean') return typeof value === 'boolean';
+  if (typeof like === 'string') return typeof value === 'string' && (ALLOWED_VALUES[key]?.includes(value) ?? true);
+  if (like === null) return value === null || typeof value === 'string';
+  return false;
+};
+
+/**
+ * Settings from the file laid over `defaults`, checked key by key the way
+ * `coerce` reads them from CSV. Keys the app does not know are dropped;
+ * a value of the wrong type refuses the whole file.
+ */
+const checkSettings = <T extends object>(raw: unknown, defaults: T, group: string): T => {
+  if (raw === undefined) return { ...defaults };
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error(`The cut list has malformed ${group} settings`);
+  const values = raw as Record<string, unknown>;
+  const checked = { ...defaults } as Record<string, unknown>;
+  Object.entries(defaults).forEach(([key, like]) => {
+    // Lists such as the ranges are checked by the caller
+    if (!(key in values) || (typeof like === 'object' && like !== null)) return;
+    if (!matchesDefault(key, values[key], like)) {
+      throw new Error(`The cut list has an invalid ${group} setting "${key}": ${JSON.stringify(values[key])}`);
+    }
+    checked[key] = values[key];
+  });
+  return checked as T;
+};
+
+/**
+ * Parses a JSON or CSV cut list and checks it is complete. Settings added
+ * after the file was written fall back to `defaults`; files from a newer
+ * version of the app are refused rather than half-loaded.
+ */
+export const parseProjectFile = (text: string, defaults: Defaults): ProjectFile => {
+  let raw: RawProjectFile;
+  if (text.trimStart().startsWith('{')) {
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new Error('The cut list is not valid JSON');
+    }
+  } else {
+    raw = csvToProject(text, defaults);
+  }
+
+  if (raw?.format !== FORMAT_ID) throw new Error('Not a SilentCut cut list');
+  const version = raw.version;
+  if (!isFiniteNumber(version) || version < 1) throw new Error(`The cut list has an invalid version: ${String(version)}`);
+  if (version > PROJECT_FILE_VERSION) {
+    throw new Error(`Cut list version ${String(version)} is newer than this app supports (${PROJECT_FILE_VERSION})`);
+  }
+  const source = raw.source ?? {};
+  if (typeof source.fingerprint !== 'string' || !isFiniteNumber(source.duration)) {
+    throw new Error('The cut list has no source fingerprint or duration');
+  }
+  const { segments } = raw;
+  const overrides = raw.manualEdits?.overrides ?? [];
+  const splits = raw.manualEdits?.splits ?? [];
+  const ranges = raw.exportConfig?.ranges;
+  if (
+    !isTimeRangeList(segments) ||
+    !isTimeRangeList(overrides) ||
+    !Array.isArray(splits) || !splits.every(isFiniteNumber) ||
+    !isTimeRangeList(ranges)
+  ) {
+    throw new Error('The cut list has malformed segments, overrides or ranges');
+  }
+
+  return {
+    format: FORMAT_ID,
+    version,
+    source: {
+      name: String(source.name ?? ''),
+      size: Number(source.size ?? 0),
+      fingerprint: source.fingerprint,
+      duration: source.duration
+    },
+    detection: checkSettings(raw.detection, defaults.detection, 'detection'),
+    segments: segments.map(seg => ({ start: seg.start, end: seg.end, isSilent: !!seg.isSilent })),
+    manualEdits: {
+      overrides: overrides.map(o => ({ start: o.start, end: o.end, isSilent: !!o.isSilent })),
+      splits
+    },
+    // Range ids are only unique within a session; the app hands out new ones
+    exportConfig: {
+      ...checkSettings(raw.exportConfig, defaults.exportConfig, 'export'),
+      ranges: ranges.map(({ start, end }) => ({ id: 0, start, end }))
+    }
+  };
+};
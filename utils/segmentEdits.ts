@@ -0,0 +1,156 @@
+import { AudioSegment, ManualEdits, SegmentOverride } from '../types';
+
+/**
+ * Pads every speech segment with `before` seconds of pre-roll and `after`
+ * seconds of post-roll taken out of the neighbouring silences, so cuts don't
+ * clip word onsets or trailing consonants. Padding is returned as its own
+ * kept segments (isPadding) so the timeline can shade it differently; when
+ * the two paddings of one silence meet, the whole silence is kept.
+ */
+export const applyKeepMargins = (
+  segments: AudioSegment[],
+  before: number,
+  after: number
+): AudioSegment[] => {
+  if (before <= 0 && after <= 0) return segments;
+
+  const result: AudioSegment[] = [];
+  segments.forEach((seg, index) => {
+    if (!seg.isSilent) {
+      result.push(seg);
+      return;
+    }
+
+    const hasSpeechBefore = index > 0 && !segments[index - 1].isSilent;
+    const hasSpeechAfter = index < segments.length - 1 && !segments[index + 1].isSilent;
+    const postRoll = hasSpeechBefore ? Math.max(0, after) : 0;
+    const preRoll = hasSpeechAfter ? Math.max(0, before) : 0;
+    const length = seg.end - seg.start;
+
+    // Paddings overlap: keep the whole pause
+    if (postRoll + preRoll >= length && (postRoll > 0 || preRoll > 0)) {
+      result.push({ ...seg, isSilent: false, isPadding: true });
+      return;
+    }
+
+    if (postRoll > 0) {
+      result.push({ start: seg.start, end: seg.start + postRoll, isSilent: false, isPadding: true });
+    }
+    result.push({ start: seg.start + postRoll, end: seg.end - preRoll, isSilent: true });
+    if (preRoll > 0) {
+      result.push({ start: seg.end - preRoll, end: seg.end, isSilent: false, isPadding: true });
+    }
+  });
+
+  return result;
+};
+
+export const EMPTY_MANUAL_EDITS: ManualEdits = { overrides: [], splits: [] };
+
+/**
+ * Lays the user's manual corrections over the detected segments. Overrides
+ * force a time range to keep or cut (later overrides win) and splits add
+ * boundaries that survive merging. Because edits are stored by time rather
+ * than by segment index, re-running detection keeps them in place.
+ */
+export const applyManualEdits = (
+  segments: AudioSegment[],
+  edits: ManualEdits
+): AudioSegment[] => {
+  if (segments.length === 0 || (edits.overrides.length === 0 && edits.splits.length === 0)) {
+    return segments;
+  }
+
+  const end = segments[segments.length - 1].end;
+  const splits = new Set(edits.splits);
+  const boundaries = new Set<number>();
+  segments.forEach(seg => {
+    boundaries.add(seg.start);
+    boundaries.add(seg.end);
+  });
+  edits.splits.forEach(t => boundaries.add(t));
+  edits.overrides.forEach(o => {
+    boundaries.add(o.start);
+    boundaries.add(o.end);
+  });
+  const points = Array.from(boundaries)
+    .filter(t => t >= 0 && t <= end)
+    .sort((a, b) => a - b);
+
+  const result: AudioSegment[] = [];
+  let segIndex = 0;
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const stop = points[i + 1];
+    if (stop <= start) continue;
+    const mid = (start + stop) / 2;
+
+    while (segIndex < segments.length - 1 && segments[segIndex].end <= mid) segIndex++;
+    let piece: AudioSegment = { ...segments[segIndex], start, end: stop };
+
+    for (let o = edits.overrides.length - 1; o >= 0; o--) {
+      const override = edits.overrides[o];
+      if (mid >= override.start && mid < override.end) {
+        piece = { start, end: stop, isSilent: override.isSilent, isManual: true };
+        break;
+      }
+    }
+
+    const last = result[result.length - 1];
+    if (
+      last &&
+      !splits.has(start) &&
+      last.isSilent === piece.isSilent &&
+      !!last.isPadding === !!piece.isPadding &&
+      !!last.isManual === !!piece.isManual
+    ) {
+      last.end = stop;
+    } else {
+      result.push(piece);
+    }
+  }
+
+  return result;
+};
+
+// Flips one (displayed) segment between keep and cut
+export const toggleSegmentEdit = (edits: ManualEdits, segment: AudioSegment): ManualEdits => ({
+  ...edits,
+  overrides: [
+    // The new override covers these completely, no point keeping them
+    ...edits.overrides.filter(o => o.start < segment.start || o.end > segment.end),
+    { start: segment.start, end: segment.end, isSilent: !segment.isSilent }
+  ]
+});
+
+export const splitEdit = (edits: ManualEdits, time: number): ManualEdits => {
+  if (edits.splits.includes(time)) return edits;
+  return { ...edits, splits: [...edits.splits, time].sort((a, b) => a - b) };
+};
+
+/**
+ * Moves the boundary between two neighbouring segments to `time`. The range
+ * the boundary sweeps over takes the state of the segment that grows.
+ */
+export const moveBoundaryEdit = (
+  edits: ManualEdits,
+  left: AudioSegment,
+  right: AudioSegment,
+  time: number
+): ManualEdits => {
+  const boundary = left.end;
+  const clamped = Math.max(left.start, Math.min(right.end, time));
+  if (clamped === boundary) return edits;
+
+  const override: SegmentOverride = clamped < boundary
+    ? { start: clamped, end: boundary, isSilent: right.isSilent }
+    : { start: boundary, end: clamped, isSilent: left.isSilent };
+
+  return {
+    // Same state on both sides means the boundary is a split; just move it
+    overrides: left.isSilent === right.isSilent ? edits.overrides : [...edits.overrides, override],
+    splits: edits.splits.includes(boundary)
+      ? edits.splits.map(t => t === boundary ? clamped : t).sort((a, b) => a - b)
+      : edits.splits
+  };
+};
@@ -0,0 +1,55 @@
+import { execFileSync } from 'node:child_process';
+import { describe, expect, it } from 'vitest';
+import { asLocalPath, quoteBash, quoteCmd, quotePowerShell, SHELL_DIALECTS } from './shellQuote';
+
+// [name, bash, cmd, PowerShell]
+const GOLDEN: [string, string, string, string][] = [
+  ['plain.mp4', `'plain.mp4'`, `"plain.mp4"`, `'plain.mp4'`],
+  ['my clip.mp4', `'my clip.mp4'`, `"my clip.mp4"`, `'my clip.mp4'`],
+  [`it's.mp4`, `'it'\\''s.mp4'`, `"it's.mp4"`, `'it''s.mp4'`],
+  ['100%.mp4', `'100%.mp4'`, `"100%%.mp4"`, `'100%.mp4'`],
+  ['%PATH%.mp4', `'%PATH%.mp4'`, `"%%PATH%%.mp4"`, `'%PATH%.mp4'`],
+  ['a&b.mp4', `'a&b.mp4'`, `"a&b.mp4"`, `'a&b.mp4'`],
+  ['a^b.mp4', `'a^b.mp4'`, `"a^b.mp4"`, `'a^b.mp4'`],
+  ['wow!.mp4', `'wow!.mp4'`, `"wow!.mp4"`, `'wow!.mp4'`],
+  ['$HOME.mp4', `'$HOME.mp4'`, `"$HOME.mp4"`, `'$HOME.mp4'`],
+  ['`date`.mp4', `'\`date\`.mp4'`, `"\`date\`.mp4"`, `'\`date\`.mp4'`],
+  ['@clip.mp4', `'@clip.mp4'`, `"@clip.mp4"`, `'@clip.mp4'`],
+  ['‘quoted’.mp4', `'‘quoted’.mp4'`, `"‘quoted’.mp4"`, `'‘‘quoted’’.mp4'`],
+  ['ünïcødé 日本.mp4', `'ünïcødé 日本.mp4'`, `"ünïcødé 日本.mp4"`, `'ünïcødé 日本.mp4'`]
+];
+
+describe('quoting', () => {
+  it.each(GOLDEN)('quotes %s', (name, bash, cmd, powerShell) => {
+    expect(quoteBash(name)).toBe(bash);
+    expect(quoteCmd(name)).toBe(cmd);
+    expect(quotePowerShell(name)).toBe(powerShell);
+  });
+
+  it('round-trips every name through bash', () => {
+    GOLDEN.forEach(([name]) => {
+      expect(execFileSync('bash', ['-c', `printf %s ${quoteBash(name)}`], { encoding: 'utf8' })).toBe(name);
+    });
+  });
+
+  it('leaves only plain arguments bare', () => {
+    Object.values(SHELL_DIALECTS).forEach(sh => {
+      expect(sh.arg('-c:v')).toBe('-c:v');
+      expect(sh.arg('setpts=PTS/4')).toBe('setpts=PTS/4');
+      expect(sh.arg('@clip.mp4')).not.toBe('@clip.mp4');
+      expect(sh.arg('[a]')).not.toBe('[a]');
+    });
+  });
+
+  it('escapes cmd metacharacters in echo and comment text', () => {
+    const cmd = SHELL_DIALECTS.win;
+    expect(cmd.echo('Saved to 100% a&b^c (1).mp4')).toBe('echo Saved to 100%% a^&b^^c ^(1^).mp4');
+    expect(cmd.comment('a|b<c>d')).toBe('REM a^|b^<c^>d');
+  });
+
+  it('passes names starting with a dash as relative paths', () => {
+    expect(asLocalPath('-clip.mp4', SHELL_DIALECTS.unix)).toBe('./-clip.mp4');
+    expect(asLocalPath('-clip.mp4', SHELL_DIALECTS.ps1)).toBe('.\\-clip.mp4');
+    expect(asLocalPath('clip-1.mp4', SHELL_DIALECTS.win)).toBe('clip-1.mp4');
+  });
+});
@@ -0,0 +1,127 @@
+/*
+ * Quoting for the export scripts. Every file name and filter graph goes
+ * through one of these dialects, so names with spaces, quotes, unicode or
+ * shell metacharacters (%, &, ^, !, $, `) reach ffmpeg unchanged.
+ */
+
+export type ScriptPlatform = 'unix' | 'win' | 'ps1';
+
+export interface ShellDialect {
+  fileName: string;
+  // PowerShell 5 reads BOM-less scripts in the ANSI code page and mangles unicode names
+  bom: boolean;
+  prologue: string[];
+  epilogue: string[];
+  pathSeparator: string;
+  arg: (value: string) => string; // one argument, quoted only when it has to be
+  command: (program: string, args: string[]) => string;
+  comment: (text: string) => string;
+  echo: (text: string) => string;
+  makeDir: (dir: string) => string;
+  removeFile: (path: string) => string;
+  removeDir: (dir: string) => string;
+  // Writes ASCII lines verbatim, e.g. the concat list or a filter script
+  writeFile: (path: string, lines: string[]) => string;
+}
+
+// Arguments made only of these need no quoting in any of the shells.
+// Not @: a bare @name is splatting in PowerShell.
+const SAFE_ARG = /^[\w\-.:/=+]+$/;
+
+// A comment or echo must stay on one line
+const singleLine = (text: string) => text.replace(/[\r\n]+/g, ' ');
+
+/**
+ * bash: single quotes keep everything literal; a single quote itself is
+ * closed, escaped and reopened.
+ */
+export const quoteBash = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * cmd: inside double quotes & | < > ^ are literal, but percent expansion
+ * still runs in a batch file, so % is doubled. ! is only special with
+ * delayed expansion, which the prologue turns off. Windows file names
+ * cannot contain a double quote, so there is nothing to do for it.
+ */
+export const quoteCmd = (value: string) => `"${value.replace(/%/g, '%%')}"`;
+
+// cmd text outside quotes (echo, REM): metacharacters get a caret, % doubles
+const escapeCmdText = (text: string) => text.replace(/%/g, '%%').replace(/([\^&|<>()])/g, '^$1');
+
+/**
+ * PowerShell: single-quoted strings are literal apart from the quote, which
+ * is doubled. PowerShell also treats the typographic quotes ‘ ’ ‚ ‛ as
+ * single quotes, so those are doubled as well.
+ */
+export const quotePowerShell = (value: string) => `'${value.replace(/['‘’‚‛]/g, '$&$&')}'`;
+
+const withQuote = (quote: (value: string) => string) => (value: string) =>
+  SAFE_ARG.test(value) ? value : quote(value);
+
+const bashArg = withQuote(quoteBash);
+const cmdArg = withQuote(quoteCmd);
+const powerShellArg = withQuote(quotePowerShell);
+
+const bash: ShellDialect = {
+  fileName: 'process_media.sh',
+  bom: false,
+  prologue: ['#!/bin/bash', ''],
+  epilogue: [],
+  pathSeparator: '/',
+  arg: bashArg,
+  command: (program, args) => [program, ...args.map(bashArg)].join(' '),
+  comment: text => `# ${singleLine(text)}`,
+  echo: text => `echo ${quoteBash(singleLine(text))}`,
+  makeDir: dir => `mkdir -p ${bashArg(dir)}`,
+  removeFile: path => `rm -f ${bashArg(path)}`,
+  removeDir: dir => `rm -rf ${bashArg(dir)}`,
+  writeFile: (path, lines) => [`cat > ${bashArg(path)} <<'EOF'`, ...lines, 'EOF'].join('\n')
+};
+
+const cmd: ShellDialect = {
+  fileName: 'process_media.bat',
+  bom: false,
+  // UTF-8 code page so unicode names survive; no delayed expansion so ! stays literal
+  prologue: ['@echo off', 'chcp 65001 >nul', 'setlocal DisableDelayedExpansion'],
+  epilogue: ['pause'],
+  pathSeparator: '\\',
+  arg: cmdArg,
+  command: (program, args) => [program, ...args.map(cmdArg)].join(' '),
+  comment: text => `REM ${escapeCmdText(singleLine(text))}`,
+  echo: text => (text ? `echo ${escapeCmdText(singleLine(text))}` : 'echo.'),
+  makeDir: dir => `if not exist ${cmdArg(dir)} mkdir ${cmdArg(dir)}`,
+  removeFile: path => `del ${cmdArg(path)}`,
+  removeDir: dir => `rmdir /s /q ${cmdArg(dir)}`,
+  writeFile: (path, lines) => ['(', ...lines.map(line => `echo ${escapeCmdText(line)}`), `) > ${cmdArg(path)}`].join('\n')
+};
+
+const powerShell: ShellDialect = {
+  fileName: 'process_media.ps1',
+  bom: true,
+  prologue: ["$ErrorActionPreference = 'Stop'"],
+  epilogue: ["Read-Host -Prompt 'Press Enter to close' | Out-Null"],
+  pathSeparator: '\\',
+  arg: powerShellArg,
+  command: (program, args) => [program, ...args.map(powerShellArg)].join(' '),
+  comment: text => `# ${singleLine(text)}`,
+  echo: text => `Write-Host ${quotePowerShell(singleLine(text))}`,
+  makeDir: dir => `New-Item -ItemType Directory -Force -Path ${powerShellArg(dir)} | Out-Null`,
+  removeFile: path => `Remove-Item -LiteralPath ${powerShellArg(path)}`,
+  removeDir: dir => `Remove-Item -Recurse -Force -LiteralPath ${powerShellArg(dir)}`,
+  // ASCII: Windows PowerShell's utf8 adds a BOM, which ffmpeg would read as part of the first line
+  writeFile: (path, lines) =>
+    [`Set-Content -Encoding ascii -LiteralPath ${powerShellArg(path)} -Value @(`, ...lines.map(line => `  ${quotePowerShell(line)}`), ')'].join('\n')
+};
+
+/**
+ * ffmpeg reads an argument starting with "-" as an option however it is
+ * quoted, so a file name like that is given as a relative path instead.
+ */
+export const asLocalPath = (name: string, sh: ShellDialect) =>
+  name.startsWith('-') ? `.${sh.pathSeparator}${name}` : name;
+
+export const SHELL_DIALECTS: Record<ScriptPlatform, ShellDialect> = {
+  unix: bash,
+  win: cmd,
+  ps1: powerShell
+};
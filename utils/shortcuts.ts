@@ -0,0 +1,128 @@
+export type ShortcutAction =
+  | 'playPause'
+  | 'shuttleReverse'
+  | 'shuttleStop'
+  | 'shuttleForward'
+  | 'frameBack'
+  | 'frameForward'
+  | 'previousSegment'
+  | 'nextSegment'
+  | 'previousCut'
+  | 'nextCut'
+  | 'setIn'
+  | 'setOut'
+  | 'toggleMagicSkip'
+  | 'showShortcuts';
+
+export type KeyBindings = Record<ShortcutAction, string>;
+
+export interface ShortcutDefinition {
+  action: ShortcutAction;
+  label: string;
+}
+
+// In the order the cheat sheet lists them
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { action: 'playPause', label: 'Play / pause' },
+  { action: 'shuttleReverse', label: 'Shuttle backwards (press again to go faster)' },
+  { action: 'shuttleStop', label: 'Stop shuttle' },
+  { action: 'shuttleForward', label: 'Shuttle forwards (press again to go faster)' },
+  { action: 'frameBack', label: 'Previous frame' },
+  { action: 'frameForward', label: 'Next frame' },
+  { action: 'previousSegment', label: 'Previous segment boundary' },
+  { action: 'nextSegment', label: 'Next segment boundary' },
+  { action: 'previousCut', label: 'Previous cut' },
+  { action: 'nextCut', label: 'Next cut' },
+  { action: 'setIn', label: 'Set range in point at playhead' },
+  { action: 'setOut', label: 'Set range out point at playhead' },
+  { action: 'toggleMagicSkip', label: 'Toggle Magic Skip' },
+  { action: 'showShortcuts', label: 'Show this cheat sheet' }
+];
+
+export const DEFAULT_BINDINGS: KeyBindings = {
+  playPause: 'Space',
+  shuttleReverse: 'J',
+  shuttleStop: 'K',
+  shuttleForward: 'L',
+  frameBack: 'ArrowLeft',
+  frameForward: 'ArrowRight',
+  previousSegment: 'Shift+ArrowLeft',
+  nextSegment: 'Shift+ArrowRight',
+  previousCut: 'ArrowUp',
+  nextCut: 'ArrowDown',
+  setIn: 'I',
+  setOut: 'O',
+  toggleMagicSkip: 'S',
+  showShortcuts: '?'
+};
+
+// Speeds stepped through by repeated J / L presses
+export const SHUTTLE_SPEEDS = [1, 2, 4, 8];
+
+const STORAGE_KEY = 'silentcut.shortcuts';
+
+/**
+ * Normalizes a key event to the form bindings are stored in, e.g. "J",
+ * "Shift+ArrowLeft", "Space". Shift is left out for printable symbols
+ * since it is already part of the character ("?" rather than "Shift+/").
+ */
+export const keyFromEvent = (e: KeyboardEvent): string => {
+  let key = e.key === ' ' ? 'Space' : e.key;
+  if (key.length === 1) key = key.toUpperCase();
+  const symbol = key.length === 1 && !/[A-Z0-9]/.test(key);
+
+  const modifiers: string[] = [];
+  if (e.ctrlKey) modifiers.push('Ctrl');
+  if (e.metaKey) modifiers.push('Meta');
+  if (e.altKey) modifiers.push('Alt');
+  if (e.shiftKey && !symbol) modifiers.push('Shift');
+  return [...modifiers, key].join('+');
+};
+
+// Modifier keys pressed on their own never trigger anything
+export const isModifierKey = (e: KeyboardEvent) => ['Shift', 'Control', 'Alt', 'Meta'].includes(e.key);
+
+export const findAction = (bindings: KeyBindings, key: string): ShortcutAction | undefined =>
+  (Object.keys(bindings) as ShortcutAction[]).find(action => bindings[action] === key);
+
+// Stored overrides on top of the defaults, so new actions get their default key
+export const loadBindings = (): KeyBindings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return { ...DEFAULT_BINDINGS, ...stored };
+  } catch {
+    return DEFAULT_BINDINGS;
+  }
+};
+
+export const saveBindings = (bindings: KeyBindings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (e) {
+    console.warn('Could not save keyboard shortcuts', e);
+  }
+};
+
+/**
+ * Assigns `key` to `action`. An action that already used the key loses it
+ * (gets an empty binding) rather than two actions sharing one key.
+ */
+export const rebind = (bindings: KeyBindings, action: ShortcutAction, key: string): KeyBindings => {
+  const next = { ...bindings };
+  const previous = findAction(next, key);
+  if (previous && previous !== action) next[previous] = '';
+  next[action] = key;
+  return next;
+};
+
+// Readable label for a binding, e.g. "Shift + ←"
+export const formatBinding = (binding: string) => {
+  if (!binding) return '—';
+  const names: Record<string, string> = {
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    ArrowUp: '↑',
+    ArrowDown: '↓'
+  };
+  return binding.split('+').map(part => names[part] ?? part).join(' + ');
+};
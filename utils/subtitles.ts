@@ -0,0 +1,103 @@
+import { EditPiece } from './editTimeline';
+
+export interface SubtitleCue {
+  start: number; // seconds
+  end: number;
+  text: string; // may span several lines
+}
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+// Parts of a cue left after a cut shorter than this are dropped
+const MIN_CUE_LENGTH = 0.1;
+// Fragments of one cue closer than this in the output are joined back up
+const JOIN_GAP = 1e-3;
+
+// "01:02:03,456", "01:02:03.456" or VTT's short "02:03.456"
+const parseTimestamp = (text: string): number | null => {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/.exec(text.trim());
+  if (!match) return null;
+  const [, hours = '0', minutes, seconds, fraction] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+};
+
+/**
+ * Reads SRT or WebVTT cues. Numbering, VTT cue identifiers and cue settings
+ * are skipped, as are NOTE, STYLE and REGION blocks; cues come back sorted
+ * by start time.
+ */
+export const parseSubtitles = (text: string): SubtitleCue[] => {
+  const blocks = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: SubtitleCue[] = [];
+
+  blocks.forEach(block => {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1 || /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) return;
+
+    const [startText, rest] = lines[timingIndex].split('-->');
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(rest.trim().split(/\s+/)[0]);
+    if (start === null || end === null || end <= start) return;
+    cues.push({ start, end, text: lines.slice(timingIndex + 1).join('\n') });
+  });
+
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Moves cues from source time onto the edited output with the same mapping
+ * as playback and export. Each cue is clipped to every piece it overlaps, so
+ * cues inside removed silence disappear, cues across a cut are trimmed, and
+ * a cue whose parts end up back to back in the output stays one cue.
+ */
+export const retimeCues = (cues: SubtitleCue[], plan: EditPiece[]): SubtitleCue[] => {
+  const retimed: SubtitleCue[] = [];
+
+  cues.forEach(cue => {
+    const parts: SubtitleCue[] = [];
+    plan.forEach(piece => {
+      const start = Math.max(cue.start, piece.start);
+      const end = Math.min(cue.end, piece.end);
+      if (end <= start) return;
+      const outputStart = piece.outputStart + (start - piece.start) / piece.speed;
+      const outputEnd = piece.outputStart + (end - piece.start) / piece.speed;
+      const last = parts[parts.length - 1];
+      if (last && Math.abs(outputStart - last.end) < JOIN_GAP) {
+        last.end = outputEnd;
+      } else {
+        parts.push({ start: outputStart, end: outputEnd, text: cue.text });
+      }
+    });
+    retimed.push(...parts.filter(part => part.end - part.start >= MIN_CUE_LENGTH));
+  });
+
+  return retimed.sort((a, b) => a.start - b.start);
+};
+
+// Cue showing at `time`, for the preview overlay
+export const findCueAt = (cues: SubtitleCue[], time: number): SubtitleCue | undefined =>
+  cues.find(cue => time >= cue.start && time < cue.end);
+
+const formatTimestamp = (time: number, separator: ',' | '.') => {
+  const totalMs = Math.max(0, Math.round(time * 1000));
+  const ms = totalMs % 1000;
+  const totalSeconds = Math.floor(totalMs / 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}${separator}${pad(ms, 3)}`;
+};
+
+// Named after the output, with only characters a filter graph takes unescaped
+export const subtitleFileName = (mediaName: string, format: SubtitleFormat) =>
+  `${mediaName.replace(/\.[^/.]+$/, '').replace(/[^\w.-]/g, '_')}_edited.${format}`;
+
+export const formatSubtitles = (cues: SubtitleCue[], format: SubtitleFormat): string => {
+  const separator = format === 'srt' ? ',' : '.';
+  const body = cues
+    .map((cue, index) => {
+      const timing = `${formatTimestamp(cue.start, separator)} --> ${formatTimestamp(cue.end, separator)}`;
+      return format === 'srt' ? `${index + 1}\n${timing}\n${cue.text}` : `${timing}\n${cue.text}`;
+    })
+    .join('\n\n');
+  return format === 'srt' ? `${body}\n` : `WEBVTT\n\n${body}\n`;
+};
@@ -0,0 +1,217 @@
+import { AudioSegment, ChannelMode, DetectionSettings, VoiceFeatures } from '../types';
+import { applyDurationRules, gateSeries } from './audioAnalysis';
+import { amplitudeToDb, PcmSource } from './audioEnvelope';
+
+// Speech intelligibility lives in roughly 300-3400 Hz, so analysing at ~8 kHz
+// keeps everything we need and makes the FFTs cheap enough for hour-long files.
+const TARGET_RATE = 8000;
+const FRAME_SECONDS = 0.032;
+const HOP_SECONDS = 0.02;
+const SPEECH_BAND: [number, number] = [300, 3400];
+
+// Voice score thresholds (0..1) used for gating
+const VOICE_OPEN = 0.5;
+const VOICE_CLOSE = 0.4;
+
+// In-place iterative radix-2 FFT
+const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const aRe = re[i + k];
+        const aIm = im[i + k];
+        const bRe = re[i + k + len / 2] * curRe - im[i + k + len / 2] * curIm;
+        const bIm = re[i + k + len / 2] * curIm + im[i + k + len / 2] * curRe;
+        re[i + k] = aRe + bRe;
+        im[i + k] = aIm + bIm;
+        re[i + k + len / 2] = aRe - bRe;
+        im[i + k + len / 2] = aIm - bIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+};
+
+// Mixdown (or a single channel) box-filtered down to roughly TARGET_RATE
+const downsample = (source: PcmSource, channelMode: ChannelMode, channelIndex: number) => {
+  const factor = Math.max(1, Math.floor(source.sampleRate / TARGET_RATE));
+  const channels = channelMode === 'channel'
+    ? [source.getChannelData(Math.min(channelIndex, source.numberOfChannels - 1))]
+    : Array.from({ length: source.numberOfChannels }, (_, c) => source.getChannelData(c));
+
+  const out = new Float32Array(Math.floor(source.length / factor));
+  const scale = 1 / (factor * channels.length);
+  for (let i = 0; i < out.length; i++) {
+    let sum = 0;
+    for (const data of channels) {
+      for (let j = i * factor; j < (i + 1) * factor; j++) {
+        sum += data[j];
+      }
+    }
+    out[i] = sum * scale;
+  }
+  return { samples: out, sampleRate: source.sampleRate / factor };
+};
+
+/**
+ * Per-frame spectral features for voice detection. This is the expensive
+ * part (one FFT per 20ms), so it is computed once in the analysis worker and
+ * cached; classification afterwards is as cheap as the RMS path.
+ */
+export const computeVoiceFeatures = (
+  source: PcmSource,
+  channelMode: ChannelMode,
+  channelIndex: number,
+  onProgress?: (fraction: number) => void
+): VoiceFeatures => {
+  const { samples, sampleRate } = downsample(source, channelMode, channelIndex);
+  const frameLength = Math.round(FRAME_SECONDS * sampleRate);
+  const hopLength = Math.round(HOP_SECONDS * sampleRate);
+  let fftSize = 1;
+  while (fftSize < frameLength) fftSize <<= 1;
+
+  const binHz = sampleRate / fftSize;
+  const bandStart = Math.max(1, Math.floor(SPEECH_BAND[0] / binHz));
+  const bandEnd = Math.min(fftSize / 2, Math.ceil(SPEECH_BAND[1] / binHz));
+
+  // Hann window
+  const window = new Float32Array(frameLength);
+  for (let i = 0; i < frameLength; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frameLength - 1));
+  }
+
+  const frameCount = Math.max(0, Math.ceil(samples.length / hopLength));
+  const energyDb = new Float32Array(frameCount);
+  const bandRatio = new Float32Array(frameCount);
+  const flatness = new Float32Array(frameCount);
+  const zeroCrossingRate = new Float32Array(frameCount);
+
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+  const reportEvery = Math.max(1, Math.floor(frameCount / 100));
+
+  for (let f = 0; f < frameCount; f++) {
+    if (onProgress && f % reportEvery === 0) onProgress(f / frameCount);
+
+    const start = f * hopLength;
+    const end = Math.min(start + frameLength, samples.length);
+    re.fill(0);
+    im.fill(0);
+
+    let sumSquares = 0;
+    let crossings = 0;
+    for (let i = start; i < end; i++) {
+      const sample = samples[i];
+      sumSquares += sample * sample;
+      if (i > start && (sample >= 0) !== (samples[i - 1] >= 0)) crossings++;
+      re[i - start] = sample * window[i - start];
+    }
+    const count = Math.max(1, end - start);
+    energyDb[f] = amplitudeToDb(Math.sqrt(sumSquares / count));
+    zeroCrossingRate[f] = crossings / count;
+
+    fft(re, im);
+
+    let total = 0;
+    let band = 0;
+    let logSum = 0;
+    for (let k = 1; k <= fftSize / 2; k++) {
+      const power = re[k] * re[k] + im[k] * im[k];
+      total += power;
+      if (k >= bandStart && k < bandEnd) {
+        band += power;
+        logSum += Math.log(power + 1e-12);
+      }
+    }
+    const bandBins = bandEnd - bandStart;
+    bandRatio[f] = total > 0 ? band / total : 0;
+    // Geometric over arithmetic mean: ~0 for harmonic speech, towards 1 for noise
+    flatness[f] = band > 0 ? Math.exp(logSum / bandBins) / (band / bandBins) : 1;
+  }
+  onProgress?.(1);
+
+  return {
+    hopSeconds: hopLength / sampleRate,
+    duration: source.duration,
+    energyDb,
+    bandRatio,
+    flatness,
+    zeroCrossingRate
+  };
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// 0..1 likelihood that a frame is voice, from its spectral shape alone
+const voiceScore = (features: VoiceFeatures, f: number) => {
+  const ratioScore = clamp01((features.bandRatio[f] - 0.5) / 0.3);
+  const flatScore = clamp01((0.55 - features.flatness[f]) / 0.35);
+  // Hum crosses zero rarely, hiss constantly; speech sits in between
+  const zcr = features.zeroCrossingRate[f];
+  const zcrScore = zcr < 0.02 ? zcr / 0.02 : zcr > 0.35 ? clamp01(1 - (zcr - 0.35) / 0.15) : 1;
+  return 0.5 * ratioScore + 0.3 * flatScore + 0.2 * zcrScore;
+};
+
+/**
+ * Classifies frames as voice / non-voice and returns the same segment shape
+ * as detectSilence. Frames quieter than the close threshold never count as
+ * voice, so the volume sliders still act as a floor.
+ */
+export const segmentVoiceFeatures = (
+  features: VoiceFeatures,
+  settings: DetectionSettings
+): AudioSegment[] => {
+  const closeThresholdDb = settings.thresholdDb - Math.max(0, settings.hysteresisDb);
+  const frameCount = features.energyDb.length;
+  const scores = new Float32Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    scores[f] = features.energyDb[f] < closeThresholdDb ? 0 : voiceScore(features, f);
+  }
+
+  // Average scores over the detection window to steady the decision
+  const radius = Math.max(0, Math.round(settings.windowSize / features.hopSeconds / 2));
+  const smoothed = new Float32Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, f - radius); j <= Math.min(frameCount - 1, f + radius); j++) {
+      sum += scores[j];
+      count++;
+    }
+    smoothed[f] = sum / count;
+  }
+
+  const segments = gateSeries(smoothed, features.hopSeconds, features.duration, {
+    open: VOICE_OPEN,
+    close: VOICE_CLOSE,
+    attack: settings.attack,
+    release: settings.release
+  });
+
+  return applyDurationRules(segments, settings.minSilenceDuration, settings.minSpeechDuration);
+};
+
+// Voice counterpart of detectSilence
+export const detectVoice = (
+  audioBuffer: AudioBuffer,
+  settings: DetectionSettings
+): AudioSegment[] => {
+  return segmentVoiceFeatures(computeVoiceFeatures(audioBuffer, settings.channelMode, settings.channelIndex), settings);
+};
@@ -10,6 +10,10 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      // ffmpeg.wasm starts its own worker from a relative URL, which pre-bundling breaks
+      optimizeDeps: {
+        exclude: ['@ffmpeg/ffmpeg'],
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
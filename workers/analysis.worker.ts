@@ -0,0 +1,91 @@
+import { AnalysisStage } from '../types';
+import { buildRmsEnvelope, getEnvelopeBuffers, toPcmSource } from '../utils/audioEnvelope';
+import { segmentEnvelope } from '../utils/audioAnalysis';
+import { computeVoiceFeatures } from '../utils/voiceActivity';
+import { AnalysisRequest, AnalysisResponse } from './analysisProtocol';
+
+const post = (message: AnalysisResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const reportProgress = (stage: AnalysisStage, progress: number) => {
+  post({ type: 'progress', stage, progress });
+};
+
+// Reads the file in chunks so we can report real byte progress
+const readFile = async (file: File) => {
+  const bytes = new Uint8Array(file.size);
+  const reader = file.stream().getReader();
+  let offset = 0;
+  let lastReported = 0;
+
+  reportProgress('read', 0);
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes.set(value, offset);
+    offset += value.length;
+
+    const progress = file.size > 0 ? offset / file.size : 1;
+    if (progress - lastReported >= 0.01) {
+      reportProgress('read', progress);
+      lastReported = progress;
+    }
+  }
+  reportProgress('read', 1);
+
+  post({ type: 'read-done', buffer: bytes.buffer }, [bytes.buffer]);
+};
+
+// Audio streamed in by the main thread
+let pcm: { channels: Float32Array[]; sampleRate: number } | null = null;
+
+const getPcmSource = () => {
+  if (!pcm) throw new Error('No audio was sent to the analysis worker');
+  return toPcmSource(pcm.channels, pcm.sampleRate);
+};
+
+const analyze = (request: Extract<AnalysisRequest, { type: 'analyze' }>) => {
+  const source = getPcmSource();
+
+  const envelope = buildRmsEnvelope(source, (p) => reportProgress('envelope', p));
+
+  reportProgress('segmentation', 0);
+  const segments = segmentEnvelope(envelope, request.settings);
+  reportProgress('segmentation', 1);
+
+  post(
+    { type: 'analyze-done', envelope, segments },
+    getEnvelopeBuffers(envelope)
+  );
+};
+
+const voice = (request: Extract<AnalysisRequest, { type: 'voice' }>) => {
+  const source = getPcmSource();
+  const features = computeVoiceFeatures(source, request.channelMode, request.channelIndex);
+
+  post(
+    { type: 'voice-done', features },
+    [features.energyDb, features.bandRatio, features.flatness, features.zeroCrossingRate].map(a => a.buffer)
+  );
+};
+
+self.onmessage = async (e: MessageEvent<AnalysisRequest>) => {
+  try {
+    if (e.data.type === 'read') {
+      await readFile(e.data.file);
+    } else if (e.data.type === 'pcm-start') {
+      const { channelCount, length, sampleRate } = e.data;
+      pcm = { channels: Array.from({ length: channelCount }, () => new Float32Array(length)), sampleRate };
+    } else if (e.data.type === 'pcm-chunk') {
+      const { offset, channels } = e.data;
+      channels.forEach((chunk, c) => pcm?.channels[c].set(chunk, offset));
+    } else if (e.data.type === 'analyze') {
+      analyze(e.data);
+    } else if (e.data.type === 'voice') {
+      voice(e.data);
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
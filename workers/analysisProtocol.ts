@@ -0,0 +1,22 @@
+import { AnalysisStage, AudioSegment, ChannelMode, DetectionSettings, RmsEnvelope, VoiceFeatures } from '../types';
+
+// Messages understood by analysis.worker.ts. Decoded audio arrives as
+// pcm-start followed by pcm-chunk messages; analyze and voice work on it.
+export type AnalysisRequest =
+  | { type: 'read'; file: File }
+  | { type: 'pcm-start'; channelCount: number; length: number; sampleRate: number }
+  | { type: 'pcm-chunk'; offset: number; channels: Float32Array[] }
+  | { type: 'analyze'; settings: DetectionSettings }
+  | {
+      type: 'voice';
+      channelMode: ChannelMode;
+      channelIndex: number;
+    };
+
+// Messages posted back to the main thread
+export type AnalysisResponse =
+  | { type: 'progress'; stage: AnalysisStage; progress: number }
+  | { type: 'read-done'; buffer: ArrayBuffer }
+  | { type: 'analyze-done'; envelope: RmsEnvelope; segments: AudioSegment[] }
+  | { type: 'voice-done'; features: VoiceFeatures }
+  | { type: 'error'; message: string };